@@ -0,0 +1,62 @@
+import { FileTextIcon, LoaderCircleIcon, XIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ChatAttachment } from '@/server/training-server';
+import { isImageType, type PendingAttachment } from './use-composer-attachments';
+
+/** 输入框上方的附件预览，上传中的显示加载状态 */
+export const AttachmentPreviewList = ({ items, onRemove }: { items: PendingAttachment[]; onRemove: (id: string) => void }) => (
+  <div className='mb-2 flex flex-wrap gap-2'>
+    {items.map(item => (
+      <div key={item.id} className='relative'>
+        {item.previewUrl ? (
+          <img src={item.previewUrl} alt={item.file.name} className='size-16 rounded-md border object-cover' />
+        ) : (
+          <div className='flex h-16 w-32 items-center gap-2 rounded-md border px-2 text-xs' title={item.file.name}>
+            <FileTextIcon className='size-5 shrink-0 text-muted-foreground' />
+            <span className='line-clamp-2 break-all'>{item.file.name}</span>
+          </div>
+        )}
+        {!item.uploaded && (
+          <div className='absolute inset-0 flex items-center justify-center rounded-md bg-background/60'>
+            <LoaderCircleIcon className='size-5 animate-spin' />
+          </div>
+        )}
+        <Button
+          type='button'
+          variant='secondary'
+          size='icon'
+          className='absolute -top-2 -right-2 size-5 rounded-full'
+          title='移除附件'
+          onClick={() => onRemove(item.id)}
+        >
+          <XIcon className='size-3' />
+        </Button>
+      </div>
+    ))}
+  </div>
+);
+
+/** 消息里的附件，图片显示缩略图，其他文件显示文件名，点击在新窗口打开 */
+export const MessageAttachments = ({ attachments, className }: { attachments: ChatAttachment[]; className?: string }) => (
+  <div className={cn('flex flex-wrap gap-2', className)}>
+    {attachments.map(file =>
+      isImageType(file.type) ? (
+        <a key={file.url} href={file.url} target='_blank' rel='noreferrer' title={file.name}>
+          <img src={file.url} alt={file.name} className='max-h-40 max-w-[240px] rounded-md border object-cover' />
+        </a>
+      ) : (
+        <a
+          key={file.url}
+          href={file.url}
+          target='_blank'
+          rel='noreferrer'
+          className='flex max-w-[240px] items-center gap-2 rounded-md border bg-background px-2 py-1.5 text-foreground text-xs'
+        >
+          <FileTextIcon className='size-4 shrink-0 text-muted-foreground' />
+          <span className='truncate'>{file.name}</span>
+        </a>
+      )
+    )}
+  </div>
+);
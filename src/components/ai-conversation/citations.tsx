@@ -0,0 +1,87 @@
+import { createContext, useContext, useMemo, type ComponentProps, type ReactNode } from 'react';
+import type { ExtraProps, Options } from 'react-markdown';
+import { PlayIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { HoverCardTrigger } from '@/components/ui/hover-card';
+import { Response } from '@/components/ui/shadcn-io/ai/response';
+import {
+  InlineCitation,
+  InlineCitationCard,
+  InlineCitationCardBody,
+  InlineCitationQuote,
+  InlineCitationSource,
+} from '@/components/ui/shadcn-io/ai/inline-citation';
+import { useAutoCache } from '@/containers/auto-cache';
+import { citationNumbers, remarkCitations, resolveCitation, seekVideo, stripPartialCitation } from '@/lib/citation';
+import { formatClock } from '@/lib/subtitle';
+import { cn } from '@/lib/utils';
+import { sectionsServer, sectionTag, type SectionResponse } from '@/server/training-server';
+
+/** 当前章节的数据，日常对话模式下没有 */
+const CitationSectionContext = createContext<SectionResponse | undefined>(undefined);
+
+const SectionCitationProvider = ({ sectionId, children }: { sectionId: string; children: ReactNode }) => {
+  // 和章节详情页用同一个请求，数据直接共用缓存
+  const { data } = useAutoCache(sectionsServer.getById, [{ section_id: sectionId }], undefined, undefined, { tags: [sectionTag(sectionId)] });
+  return <CitationSectionContext.Provider value={data?.data}>{children}</CitationSectionContext.Provider>;
+};
+
+/** 为对话提供解析引用用的章节数据 */
+export const CitationProvider = ({ sectionId, children }: { sectionId?: string; children: ReactNode }) =>
+  sectionId ? <SectionCitationProvider sectionId={sectionId}>{children}</SectionCitationProvider> : children;
+
+/** 回答里的一个引用序号，悬停显示引用的原文，有视频时间的点击后跳转播放 */
+const CitationMarker = ({ node }: ComponentProps<'cite'> & ExtraProps) => {
+  const section = useContext(CitationSectionContext);
+  const kind = String(node?.properties.dataKind);
+  const number = Number(node?.properties.dataNumber);
+  const citation = section && resolveCitation(section, kind, Number(node?.properties.dataRef));
+
+  if (!citation) {
+    return <sup className='text-muted-foreground'>[{number}]</sup>;
+  }
+
+  const start = citation.start;
+  return (
+    <InlineCitation>
+      <InlineCitationCard>
+        {/* 不禁用按钮，禁用后悬停卡片也不会出现，没有视频时间时只是点击无效 */}
+        <HoverCardTrigger asChild>
+          <Badge
+            asChild
+            variant='secondary'
+            className={cn('ml-0.5 rounded-full px-1.5 py-0 align-super text-[10px]', start !== undefined && 'cursor-pointer')}
+          >
+            <button type='button' onClick={() => start !== undefined && seekVideo(start)}>
+              {number}
+            </button>
+          </Badge>
+        </HoverCardTrigger>
+        <InlineCitationCardBody className='p-4'>
+          <InlineCitationSource title={citation.title}>
+            <InlineCitationQuote className='line-clamp-6'>{citation.quote}</InlineCitationQuote>
+          </InlineCitationSource>
+          {start !== undefined && (
+            <p className='mt-2 flex items-center gap-1 text-muted-foreground text-xs'>
+              <PlayIcon className='size-3' />
+              点击序号从 {formatClock(start)} 开始播放
+            </p>
+          )}
+        </InlineCitationCardBody>
+      </InlineCitationCard>
+    </InlineCitation>
+  );
+};
+
+const citationComponents = { cite: CitationMarker };
+
+/** 渲染助手的回答，并把其中的课程内容引用标记换成可以悬停、点击的序号 */
+export const CitedResponse = ({ children }: { children: string }) => {
+  const text = stripPartialCitation(children);
+  // 回答按块渲染，序号要按整段回答统一编
+  const options = useMemo<Options>(
+    () => ({ remarkPlugins: [[remarkCitations, { numbers: citationNumbers(text) }]], components: citationComponents }),
+    [text]
+  );
+  return <Response options={options}>{text}</Response>;
+};
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { DownloadIcon, FileJsonIcon, FileTextIcon, FolderOpenIcon, PrinterIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { downloadText } from '@/lib/utils';
+import { conversationFileName, toConversationJson, toConversationMarkdown } from '@/lib/conversation-export';
+import { aiChatServer } from '@/server/training-server';
+
+/** 导出当前会话：Markdown 笔记、JSON 存档，或打开打印版式保存为 PDF */
+export const ExportMenu = ({ sessionId, disabled }: { sessionId: string | null; disabled?: boolean }) => {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  async function download(format: 'markdown' | 'json') {
+    if (!sessionId) return;
+    setExporting(true);
+    try {
+      const history = (await aiChatServer.getSessionHistory(sessionId, true)).data.data;
+      if (history.history.length === 0) {
+        alert('这个会话还没有对话记录');
+        return;
+      }
+      const fileName = conversationFileName(history);
+      if (format === 'markdown') {
+        downloadText(`${fileName}.md`, toConversationMarkdown(history), 'text/markdown');
+      } else {
+        downloadText(`${fileName}.json`, toConversationJson(history), 'application/json');
+      }
+      setOpen(false);
+    } catch (error) {
+      console.error('导出对话失败:', error);
+      alert('导出失败，请重试');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function openNotes(path: string) {
+    window.open(`${window.location.pathname}#${path}`, '_blank');
+    setOpen(false);
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant='outline' size='sm' title='导出对话' disabled={disabled}>
+          <DownloadIcon />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className='flex w-48 flex-col gap-1 p-1' align='end'>
+        <Button variant='ghost' size='sm' className='justify-start' disabled={!sessionId || exporting} onClick={() => download('markdown')}>
+          <FileTextIcon />
+          导出 Markdown
+        </Button>
+        <Button variant='ghost' size='sm' className='justify-start' disabled={!sessionId || exporting} onClick={() => download('json')}>
+          <FileJsonIcon />
+          导出 JSON 存档
+        </Button>
+        <Button variant='ghost' size='sm' className='justify-start' disabled={!sessionId} onClick={() => openNotes(`/conversation/${sessionId}?print=1`)}>
+          <PrinterIcon />
+          打印 / 保存为 PDF
+        </Button>
+        <Button variant='ghost' size='sm' className='justify-start' onClick={() => openNotes('/conversation')}>
+          <FolderOpenIcon />
+          查看 JSON 存档
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -4,43 +4,64 @@ import { Loader } from '@/components/ui/shadcn-io/ai/loader';
 import { Message, MessageAvatar, MessageContent } from '@/components/ui/shadcn-io/ai/message';
 import { Reasoning, ReasoningContent, ReasoningTrigger } from '@/components/ui/shadcn-io/ai/reasoning';
 import { Source, Sources, SourcesContent, SourcesTrigger } from '@/components/ui/shadcn-io/ai/source';
+import { Branch, BranchMessages, BranchNext, BranchPage, BranchPrevious, BranchSelector } from '@/components/ui/shadcn-io/ai/branch';
 import { cn } from '@/lib/utils';
-import { MicIcon, ArrowUpIcon, PhoneIcon, MicOffIcon, XIcon, FileTextIcon, SunDimIcon, ArrowRightIcon, Fingerprint } from 'lucide-react';
+import { MicIcon, ArrowUpIcon, PhoneIcon, MicOffIcon, XIcon, FileTextIcon, SunDimIcon, ArrowRightIcon, Fingerprint, SquareIcon, PaperclipIcon, UserCogIcon, ClockIcon, FilmIcon } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { nanoid } from 'nanoid';
-import { type FormEventHandler, useCallback, useEffect, useRef, useState } from 'react';
-import { aiChatServer, leadingQuestionServer, type AiPersona, type LeadingQuestionResponse } from '@/server/training-server';
+import { type FormEventHandler, memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  aiChatServer,
+  leadingQuestionServer,
+  personasTag,
+  sessionsTag,
+  type AiPersona,
+  type ChatAttachment,
+  type ChatCommand,
+  type LeadingQuestionResponse,
+  type PracticeQuiz as PracticeQuizData,
+  type VideoContext,
+  type HistoryMessage,
+} from '@/server/training-server';
 import { useAutoCache } from '@/containers/auto-cache';
-import { useParams } from 'react-router';
+import { Link, useParams, useSearchParams } from 'react-router';
 import { MarkdownRenderer } from '@/components/ui/markdown-renderer';
 import { getLoginUser } from '@/containers/auth-middleware';
 import { match, P } from 'ts-pattern';
 import { VoiceUI } from './voice';
+import { SessionDrawer } from './session-drawer';
+import { ExportMenu } from './export-menu';
+import { AttachmentPreviewList, MessageAttachments } from './attachments';
+import { CitationProvider, CitedResponse } from './citations';
+import { PracticeQuiz } from './practice-quiz';
+import { findSlashCommand, parseSlashCommand, videoTimeLabel, type SlashCommandContext } from './slash-commands';
+import { SlashCommandHelp, SlashCommandMenu } from './slash-command-menu';
+import { useSlashCommandMenu } from './use-slash-command-menu';
+import { ATTACHMENT_ACCEPT, useComposerAttachments } from './use-composer-attachments';
+import { AssistantMessageActions, UserMessageActions, UserMessageEditor, type FeedbackValues, type RegenerateOptions } from './message-actions';
 import { Textarea } from '../ui/textarea';
 import { Button } from '../ui/button';
 import { Item, ItemActions, ItemContent, ItemDescription, ItemMedia, ItemTitle } from '@/components/ui/item';
 import { Response } from '@/components/ui/shadcn-io/ai/response';
-import { Streamdown } from 'streamdown';
-
-export const SEND_TO_AI = 'ai-insert-text';
-
-export function sendToAI(message: string) {
-  const event = new CustomEvent(SEND_TO_AI, {
-    detail: { text: message },
-  });
-  window.dispatchEvent(event);
+import { TrainingApiError } from '@/lib/http-error';
+import { createStreamStats, type ChatSource, type ChatStreamEvent, type ChatUsage } from '@/lib/chat-stream';
+import { invalidateQueries } from '@/lib/query-cache';
+import { lastSessionStore } from '@/lib/session-store';
+import { seekVideo } from '@/lib/citation';
+import { videoPosition } from '@/lib/video-position';
+import { videoContextLabel } from '@/lib/video-context';
+import { emitAppEvent } from '@/lib/app-events';
+import { createFrameBatch } from '@/lib/frame-batch';
+import { useAppEvent } from '@/hooks/use-app-event';
+import { Badge } from '@/components/ui/badge';
+
+/** 把文字填进输入框；带上 videoContext 时在输入框上方显示视频上下文，随下一条消息发送 */
+export function sendToAI(message: string, options: { videoContext?: VideoContext } = {}) {
+  emitAppEvent('ai:ask', { text: message, videoContext: options.videoContext });
 }
 
-export const AI_LEARNING_REVIEW = 'ai-learning-review';
-
 export function aiLearningReview(sectionId: string) {
-  window.dispatchEvent(
-    new CustomEvent(AI_LEARNING_REVIEW, {
-      detail: {
-        sectionId,
-      },
-    })
-  );
+  emitAppEvent('ai:learning-review', { sectionId });
 }
 
 type ChatMessage = {
@@ -48,11 +69,131 @@ type ChatMessage = {
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
+  /** 用户消息附带的图片或文件 */
+  attachments?: ChatAttachment[];
+  /** 通过斜杠命令发出的消息 */
+  command?: ChatCommand;
+  /** 提问时附加的视频时间（秒） */
+  videoTime?: number;
+  /** 从视频播放器提问时附带的画面上下文 */
+  videoContext?: VideoContext;
   reasoning?: string;
-  sources?: Array<{ title: string; url: string }>;
+  sources?: ChatSource[];
+  usage?: ChatUsage;
+  /** 后端记录的这轮对话 id，流式事件里下发 */
+  interactionId?: string;
+  /** 流中途出错时的提示，已经生成的内容保留 */
+  error?: string;
+  /** 用户停止了生成，content 只是部分回答 */
+  interrupted?: boolean;
+  /** 生成这条回答用的模型，重新生成时用来区分各个分支 */
+  modelName?: string;
+  /** 用户对这条回答的评价 */
+  feedback?: 'up' | 'down';
+  /** /quiz 生成的练习题，只在当前对话里作答，不写入历史 */
+  quiz?: PracticeQuizData;
   isStreaming?: boolean;
 };
 
+/**
+ * 对话分支点：同一位置之后的几种不同后续
+ * 当前展示的分支以 messages 为准，tails[active] 只在切走时才更新
+ */
+type ChatFork = {
+  tails: ChatMessage[][];
+  active: number;
+};
+
+/** 第一条消息之前的分支点 */
+const ROOT_FORK = 'root';
+
+/** 第 index 条消息所在分支点的 key，即它前一条消息的 id */
+function forkKeyOf(messages: ChatMessage[], index: number) {
+  return messages[index - 1]?.id ?? ROOT_FORK;
+}
+
+/** 新提问接在哪一轮对话之后：前面最后一条有记录的回答，没有时从会话开头提问 */
+function parentInteractionOf(messages: ChatMessage[]): string | null {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const interactionId = messages[index].role === 'assistant' ? messages[index].interactionId : undefined;
+    if (interactionId) return interactionId;
+  }
+  return null;
+}
+
+/**
+ * 把会话历史还原成当前显示的对话和各个分支点
+ * 同一轮之后有多个后续时是重新生成或修改提问留下的分支，默认显示最新的一支
+ */
+function conversationFromHistory(history: HistoryMessage[]): { messages: ChatMessage[]; forks: Record<string, ChatFork> } {
+  const children = new Map<string, HistoryMessage[]>();
+  history.forEach((item, index) => {
+    // 旧数据没有记录上一轮，按列表顺序相接
+    const parent = item.parent_interaction_id === undefined ? history[index - 1]?.interaction_id : item.parent_interaction_id;
+    const key = parent ?? ROOT_FORK;
+    children.set(key, [...(children.get(key) ?? []), item]);
+  });
+
+  const turnOf = (item: HistoryMessage): ChatMessage[] => [
+    {
+      id: `${item.interaction_id}-question`,
+      content: item.user_message,
+      role: 'user',
+      timestamp: new Date(item.query_time),
+      attachments: item.attachments,
+    },
+    {
+      id: item.interaction_id,
+      content: item.ai_response,
+      role: 'assistant',
+      timestamp: new Date(item.query_time),
+      interactionId: item.interaction_id,
+    },
+  ];
+
+  const forks: Record<string, ChatFork> = {};
+  // 从某一轮之后沿着最新的分支往下走；回答消息的 id 就是 interaction_id，正好是下一轮的分支点 key
+  const pathAfter = (key: string): ChatMessage[] => {
+    const next = children.get(key) ?? [];
+    if (next.length === 0) return [];
+    const tails = next.map(item => [...turnOf(item), ...pathAfter(item.interaction_id)]);
+    if (tails.length > 1) {
+      forks[key] = { tails, active: tails.length - 1 };
+    }
+    return tails[tails.length - 1];
+  };
+
+  return { messages: pathAfter(ROOT_FORK), forks };
+}
+
+/** 把一个流式事件合并到消息上 */
+function applyStreamEvent(message: ChatMessage, event: ChatStreamEvent): ChatMessage {
+  return match(event)
+    .with({ type: 'text-delta' }, ({ delta }) => ({ ...message, content: message.content + delta }))
+    .with({ type: 'reasoning-delta' }, ({ delta }) => ({ ...message, reasoning: (message.reasoning ?? '') + delta }))
+    .with({ type: 'source' }, ({ source }) =>
+      // 同一来源可能被多次引用，只保留一条
+      message.sources?.some(item => item.url === source.url) ? message : { ...message, sources: [...(message.sources ?? []), source] }
+    )
+    .with({ type: 'usage' }, ({ usage }) => ({ ...message, usage }))
+    .with({ type: 'interaction_id' }, ({ interaction_id }) => ({ ...message, interactionId: interaction_id }))
+    .with({ type: 'error' }, ({ message: error }) => ({ ...message, error }))
+    .with({ type: 'done' }, () => message)
+    .exhaustive();
+}
+
+/** 发送消息时可以附带的内容，重新生成时沿用原提问的 */
+type SendOptions = RegenerateOptions & {
+  /** 用户消息已经在列表里，只重新请求回答 */
+  regenerate?: boolean;
+  attachments?: ChatAttachment[];
+  command?: ChatCommand;
+  videoTime?: number;
+  videoContext?: VideoContext;
+  /** 重新生成和修改提问时由调用方指定分叉点，否则接在当前对话的最后一轮之后 */
+  parentInteractionId?: string | null;
+};
+
 type LeadingQuestionSuggestion = {
   id: string;
   text: string;
@@ -82,6 +223,87 @@ const getWebRTCServerUrl = () => {
   // return "http://localhost:8989";
 };
 
+/**
+ * 一条消息的内容，以及助手回答附带的推理过程、引用来源和用量
+ * 流式输出时只有正在生成的消息对象会变，其他消息靠 memo 跳过渲染
+ */
+const ChatMessageView = memo(({ message }: { message: ChatMessage }) => (
+  <>
+    <Message from={message.role}>
+      <MessageContent>
+        {message.isStreaming && message.content === '' && !message.reasoning ? (
+          <div className='flex items-center gap-2'>
+            <Loader size={14} />
+            <span className='text-muted-foreground text-sm'>Thinking...</span>
+          </div>
+        ) : message.role === 'assistant' ? (
+          <CitedResponse>{message.content}</CitedResponse>
+        ) : (
+          <p className='leading-7'>{message.content}</p>
+        )}
+        {message.quiz && <PracticeQuiz quiz={message.quiz} modelName={message.modelName} />}
+        {message.attachments && message.attachments.length > 0 && <MessageAttachments attachments={message.attachments} />}
+        {message.videoTime !== undefined && (
+          <button type='button' className='flex items-center gap-1 text-xs underline opacity-80' onClick={() => seekVideo(message.videoTime!)}>
+            <ClockIcon className='size-3' />
+            {videoTimeLabel(message.videoTime)}
+          </button>
+        )}
+        {message.videoContext && (
+          <button
+            type='button'
+            className='flex items-center gap-1 text-xs underline opacity-80'
+            title={message.videoContext.subtitle?.text}
+            onClick={() => seekVideo(message.videoContext!.time)}
+          >
+            <FilmIcon className='size-3' />
+            {videoContextLabel(message.videoContext)}
+          </button>
+        )}
+        {message.error && <p className='text-destructive text-sm'>{message.error}</p>}
+        {message.interrupted && <p className='text-muted-foreground text-xs'>已停止生成</p>}
+      </MessageContent>
+      <MessageAvatar
+        src={message.role === 'user' ? 'https://github.com/dovazencot.png' : 'https://github.com/vercel.png'}
+        name={message.role === 'user' ? 'User' : 'AI'}
+      />
+    </Message>
+    {/* Reasoning */}
+    {message.reasoning && (
+      <div className='ml-10'>
+        <Reasoning isStreaming={message.isStreaming} defaultOpen={false}>
+          <ReasoningTrigger />
+          <ReasoningContent>{message.reasoning}</ReasoningContent>
+        </Reasoning>
+      </div>
+    )}
+    {/* Sources */}
+    {message.sources && message.sources.length > 0 && (
+      <div className='ml-10'>
+        <Sources>
+          <SourcesTrigger count={message.sources.length} />
+          <SourcesContent>
+            {message.sources.map((source, index) => (
+              <Source key={index} href={source.url} title={source.title || source.url} />
+            ))}
+          </SourcesContent>
+        </Sources>
+      </div>
+    )}
+    {/* Usage */}
+    {!message.isStreaming && message.usage?.total_tokens !== undefined && (
+      <div className='ml-10 text-muted-foreground text-xs'>
+        消耗 {message.usage.total_tokens} tokens
+        {message.usage.prompt_tokens !== undefined && message.usage.completion_tokens !== undefined
+          ? `（输入 ${message.usage.prompt_tokens}，输出 ${message.usage.completion_tokens}）`
+          : ''}
+      </div>
+    )}
+  </>
+));
+
+ChatMessageView.displayName = 'ChatMessageView';
+
 const AiConversation = () => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
@@ -99,10 +321,36 @@ const AiConversation = () => {
   const [previousMessage, setPreviousMessage] = useState('欢迎使用语音对话功能');
   const [selectedPersona, setSelectedPersona] = useState<AiPersona | null>(null);
   const [leadingQuestions, setLeadingQuestions] = useState<LeadingQuestionSuggestion[]>([]);
+  const [forks, setForks] = useState<Record<string, ChatFork>>({});
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const {
+    items: pendingAttachments,
+    add: addAttachments,
+    remove: removeAttachment,
+    clear: clearAttachments,
+    uploading: isUploadingAttachments,
+    attachments: composerAttachments,
+  } = useComposerAttachments();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  /** 通过 /timestamp 附加到下一条消息的视频时间 */
+  const [pendingVideoTime, setPendingVideoTime] = useState<number | null>(null);
+  const [pendingVideoContext, setPendingVideoContext] = useState<VideoContext | null>(null);
+  const [slashHelpOpen, setSlashHelpOpen] = useState(false);
+  /** 最近一次在输入框之外选中的文字，给 /explain 用 */
+  const lastSelectionRef = useRef('');
+  const formRef = useRef<HTMLFormElement | null>(null);
   const streamingTimerRef = useRef<number | null>(null);
+  /** 当前对话或学习总结请求的中止控制器，同一时间只有一个 */
+  const abortControllerRef = useRef<AbortController | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const params = useParams();
   const sectionId = params.sectionId;
+  // 从对话搜索跳转过来时，打开指定会话并定位到那一轮对话
+  const [searchParams] = useSearchParams();
+  const targetSessionId = searchParams.get('session') ?? undefined;
+  const targetInteractionId = searchParams.get('interaction');
+  const [highlightedInteractionId, setHighlightedInteractionId] = useState<string | null>(null);
 
   // 当voiceState变为listening时，将current移到previous
   useEffect(() => {
@@ -112,8 +360,39 @@ const AiConversation = () => {
     }
   }, [voiceState, currentMessage]);
 
-  const { data: personasResponse } = useAutoCache(aiChatServer.getPersonas, []);
-  const personas = personasResponse?.data || [];
+  // 带上课程和用户，列表里才有学员自己的人设和这门课程的默认人设
+  const { data: personasResponse } = useAutoCache(aiChatServer.getPersonas, [params.courseId, getUserId()], undefined, undefined, {
+    tags: [personasTag],
+  });
+  const personas = useMemo(() => personasResponse?.data ?? [], [personasResponse]);
+
+  // 人设列表变化后（换了课程、人设被删除或改了默认），没选或选中的已不存在时用这门课程的默认人设
+  useEffect(() => {
+    const list = personasResponse?.data ?? [];
+    setSelectedPersona(prev =>
+      prev && list.some(persona => persona.persona_id === prev.persona_id) ? prev : (list.find(persona => persona.is_user_default) ?? null)
+    );
+  }, [personasResponse]);
+
+  // 记住页面上最近选中的文字，点进输入框后选区就没了
+  useEffect(() => {
+    const handler = () => {
+      const selection = window.getSelection();
+      const text = selection?.toString().trim();
+      if (text && !formRef.current?.contains(selection?.anchorNode ?? null)) {
+        lastSelectionRef.current = text;
+      }
+    };
+    document.addEventListener('selectionchange', handler);
+    return () => document.removeEventListener('selectionchange', handler);
+  }, []);
+
+  // 选中文字和视频时间在执行命令时再读取，补全用不到
+  const slashContext = useMemo<SlashCommandContext>(
+    () => ({ sectionId, personas: personasResponse?.data || [], models: modelOptions, selectedText: '' }),
+    [sectionId, personasResponse, modelOptions],
+  );
+  const slashMenu = useSlashCommandMenu(inputValue, slashContext, setInputValue);
 
   const fetchLeadingQuestions = useCallback(async (targetSectionId: string) => {
     if (!targetSectionId) {
@@ -204,7 +483,8 @@ const AiConversation = () => {
   // 切换人设
   const handlePersonaSwitch = useCallback(
     async (personaId: string) => {
-      const persona = personas.filter(persona => persona.persona_id === personaId)[0];
+      const persona = personas.find(persona => persona.persona_id === personaId);
+      if (!persona) return;
       if (!currentSessionId) {
         // 如果没有会话，直接切换选中的人设
         setSelectedPersona(persona);
@@ -234,11 +514,13 @@ const AiConversation = () => {
         alert('切换人设失败，请重试');
       }
     },
-    [currentSessionId]
+    [currentSessionId, personas]
   );
 
-  // 加载历史记录
-  const loadChatHistory = useCallback(async () => {
+  // 加载历史记录，不指定会话时继续这一节上次使用的会话
+  const loadChatHistory = useCallback(async (preferredSessionId?: string) => {
+    setForks({});
+    setEditingMessageId(null);
     try {
       // 如果sectionId为空，不读取历史记录，直接显示欢迎消息
       if (!sectionId) {
@@ -265,38 +547,23 @@ const AiConversation = () => {
       let sessionId: string;
       let historyMessages: ChatMessage[] = [];
 
-      // 2. 如果有现有会话，使用最新的
-      if (sessionsResponse.data.data.sessions && sessionsResponse.data.data.sessions.length > 0) {
-        sessionId = sessionsResponse.data.data.sessions[0].session_id;
-        console.log('使用最新的会话ID:', sessionId);
+      // 2. 如果有现有会话，优先使用指定的或上次使用的，否则使用最新的
+      const sessions = sessionsResponse.data.data.sessions ?? [];
+      if (sessions.length > 0) {
+        const rememberedId = preferredSessionId ?? lastSessionStore.get(sectionId);
+        sessionId = (sessions.find(session => session.session_id === rememberedId) ?? sessions[0]).session_id;
+        console.log('使用会话ID:', sessionId);
         setCurrentSessionId(sessionId);
-        // 保存到 localStorage
-        if (sectionId) {
-          localStorage.setItem(`ai-session-${sectionId}`, sessionId);
-        }
+        lastSessionStore.set(sectionId, sessionId);
 
         // 3. 获取并加载历史记录
         const historyResponse = await aiChatServer.getSessionHistory(sessionId, true);
         console.log('会话历史记录:', historyResponse.data);
 
-        // 将历史记录转换为ChatMessage格式
-        historyMessages = historyResponse.data.data.history.flatMap(msg => {
-          const userMsg: ChatMessage = {
-            id: nanoid(),
-            content: msg.user_message,
-            role: 'user',
-            timestamp: new Date(msg.query_time),
-          };
-
-          const aiMsg: ChatMessage = {
-            id: nanoid(),
-            content: msg.ai_response,
-            role: 'assistant',
-            timestamp: new Date(msg.query_time),
-          };
-
-          return [userMsg, aiMsg];
-        });
+        // 将历史记录转换为ChatMessage格式，并还原重新生成留下的分支
+        const conversation = conversationFromHistory(historyResponse.data.data.history);
+        historyMessages = conversation.messages;
+        setForks(conversation.forks);
 
         console.log(`加载了 ${historyMessages.length / 2} 条历史对话`);
         setLeadingQuestions([]);
@@ -333,221 +600,235 @@ const AiConversation = () => {
     }
   }, [fetchLeadingQuestions, sectionId]);
 
+  /** 停止正在生成的回答，已经生成的部分保留并标记为已中断 */
+  const stopGeneration = useCallback(() => {
+    if (streamingTimerRef.current) {
+      window.clearTimeout(streamingTimerRef.current);
+      streamingTimerRef.current = null;
+    }
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsTyping(false);
+    setStreamingMessageId(null);
+  }, []);
+
   // 当 sectionId 变更时，加载对应的历史记录
   useEffect(() => {
     // 清空当前会话ID，以便为新的section重新创建或加载会话
     setCurrentSessionId(null);
-    loadChatHistory();
+    loadChatHistory(targetSessionId);
+    // 切换章节或离开页面时中止上一章节还在进行的请求
+    return stopGeneration;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sectionId]);
+  }, [sectionId, targetSessionId]);
 
-  // Listen for external insert requests (e.g., from SectionDetail) to prefill the input
+  // 历史加载完成后滚动到搜索命中的那一轮对话，连同提问一起显示
   useEffect(() => {
-    const handler = (e: Event) => {
-      try {
-        const detail = (e as CustomEvent)?.detail;
-        const text = detail?.text;
-        if (typeof text === 'string') {
-          setInputValue(text);
-          // Try to focus the textarea inside this component
-          const textarea = containerRef.current?.querySelector('textarea[name="message"]') as HTMLTextAreaElement | null;
-          if (textarea) {
-            textarea.focus();
-            // move cursor to end
-            const len = textarea.value.length;
-            textarea.setSelectionRange(len, len);
-          }
-        }
-      } catch (err) {
-        console.warn(`${SEND_TO_AI} handler error`, err);
-      }
-    };
+    if (isLoadingHistory || !targetInteractionId) return;
+    const answer = containerRef.current?.querySelector(`[data-interaction-id="${CSS.escape(targetInteractionId)}"]`);
+    if (!answer) return;
+    (answer.previousElementSibling ?? answer).scrollIntoView({ block: 'start', behavior: 'smooth' });
+    setHighlightedInteractionId(targetInteractionId);
+    const timer = window.setTimeout(() => setHighlightedInteractionId(null), 3000);
+    return () => window.clearTimeout(timer);
+  }, [isLoadingHistory, targetInteractionId]);
 
-    window.addEventListener(SEND_TO_AI, handler);
-    return () => window.removeEventListener(SEND_TO_AI, handler);
-  }, []);
+  // Listen for external insert requests (e.g., from SectionDetail) to prefill the input
+  useAppEvent('ai:ask', ({ text, videoContext }) => {
+    if (videoContext) {
+      setPendingVideoContext(videoContext);
+    }
+    if (text) setInputValue(text);
+    // Try to focus the textarea inside this component
+    const textarea = containerRef.current?.querySelector('textarea[name="message"]') as HTMLTextAreaElement | null;
+    if (textarea) {
+      textarea.focus();
+      // move cursor to end
+      const len = textarea.value.length;
+      textarea.setSelectionRange(len, len);
+    }
+  });
 
   // Listen for chat history refresh requests
-  useEffect(() => {
-    const handler = () => {
-      loadChatHistory();
-    };
-
-    window.addEventListener('ai-refresh-history', handler as EventListener);
-    return () => window.removeEventListener('ai-refresh-history', handler as EventListener);
-  }, [loadChatHistory]);
+  useAppEvent('ai:refresh-history', () => {
+    loadChatHistory();
+  });
 
   const processStreamResponse = useCallback(
-    async (messageId: string, stream: AsyncIterable<string>) => {
+    async (
+      messageId: string,
+      stream: AsyncIterable<ChatStreamEvent> | Promise<AsyncIterable<ChatStreamEvent>>,
+      signal?: AbortSignal
+    ) => {
+      const updateMessage = (update: (msg: ChatMessage) => ChatMessage) => {
+        setMessages(prev => prev.map(msg => (msg.id === messageId ? update(msg) : msg)));
+      };
+      const stats = createStreamStats();
+      // 同一帧收到的片段合并成一次更新，其他消息的对象不变，不会跟着重新渲染
+      const batch = createFrameBatch<ChatStreamEvent>(events => {
+        stats.render();
+        updateMessage(msg => ({ ...events.reduce(applyStreamEvent, msg), isStreaming: true }));
+      });
       try {
-        for await (const textChunk of stream) {
-          if (!textChunk) continue;
-
-          setMessages(prev =>
-            prev.map(msg => {
-              if (msg.id !== messageId) return msg;
-
-              return {
-                ...msg,
-                content: msg.content + textChunk,
-                isStreaming: true,
-              };
-            })
-          );
+        for await (const event of await stream) {
+          if (event.type === 'done') break;
+          stats.receive(event);
+          batch.push(event);
         }
-
-        // Mark streaming as complete
-        setMessages(prev =>
-          prev.map(msg => {
-            if (msg.id === messageId) {
-              return {
-                ...msg,
-                isStreaming: false,
-              };
-            }
-            return msg;
-          })
-        );
       } catch (error) {
-        console.error('Stream processing error:', error);
+        batch.flush();
+        if (signal?.aborted) {
+          updateMessage(msg => ({ ...msg, interrupted: true }));
+        } else {
+          console.error('Stream processing error:', error);
+          updateMessage(msg => ({ ...msg, error: error instanceof TrainingApiError ? error.message : '回答中断，请重试' }));
+        }
       } finally {
-        setIsTyping(false);
-        setStreamingMessageId(null);
+        batch.flush();
+        stats.report();
+        // Mark streaming as complete
+        updateMessage(msg => ({ ...msg, isStreaming: false }));
+        // 被新的请求中止时，输入状态已经属于新的请求，不能在这里重置
+        if (abortControllerRef.current?.signal === signal) {
+          abortControllerRef.current = null;
+          setIsTyping(false);
+          setStreamingMessageId(null);
+        }
       }
     },
-    [sectionId, selectedModel]
+    []
   );
 
-  useEffect(() => {
-    const handler = (event: Event) => {
-      const detail = (event as CustomEvent)?.detail as { sectionId?: string } | undefined;
-
-      if (!detail) {
-        return;
-      }
+  // 正在回答时收到的学习总结请求，等回答结束后再生成，不打断学员的对话
+  const pendingLearningReviewRef = useRef<string | null>(null);
 
-      const resolvedSectionId = detail.sectionId ?? sectionId ?? '';
+  useEffect(() => {
+    if (isTyping || pendingLearningReviewRef.current === null) return;
+    const pendingSectionId = pendingLearningReviewRef.current;
+    pendingLearningReviewRef.current = null;
+    aiLearningReview(pendingSectionId);
+  }, [isTyping]);
+
+  /** 生成学习总结评语，同一个会话只生成一次 */
+  const startLearningReview = (requestedSectionId: string) => {
+    if (isTyping) {
+      pendingLearningReviewRef.current = requestedSectionId;
+      return;
+    }
+    const resolvedSectionId = requestedSectionId || sectionId || '';
 
-      if (!resolvedSectionId) {
-        console.warn('[learning-review] skipped: missing section id');
-        return;
-      }
+    if (!resolvedSectionId) {
+      console.warn('[learning-review] skipped: missing section id');
+      return;
+    }
 
-      let resolvedSessionId = currentSessionId;
-      if (!resolvedSessionId) {
-        resolvedSessionId = localStorage.getItem(`ai-session-${resolvedSectionId}`) ?? null;
-      }
+    let resolvedSessionId = currentSessionId;
+    if (!resolvedSessionId) {
+      resolvedSessionId = lastSessionStore.get(resolvedSectionId);
+    }
 
-      if (!resolvedSessionId) {
-        console.log('[learning-review] skipped: no existing session for section', resolvedSectionId);
-        return;
-      }
+    if (!resolvedSessionId) {
+      console.log('[learning-review] skipped: no existing session for section', resolvedSectionId);
+      return;
+    }
 
-      const resolvedUserId = getUserId();
+    const resolvedUserId = getUserId();
 
-      if (!resolvedUserId) {
-        console.warn('[learning-review] skipped: missing user id');
-        return;
-      }
+    if (!resolvedUserId) {
+      console.warn('[learning-review] skipped: missing user id');
+      return;
+    }
 
-      const reviewKey = `ai-learning-review-${resolvedSectionId}-${resolvedSessionId}`;
-      if (localStorage.getItem(reviewKey)) {
-        console.log('[learning-review] skipped: already triggered for session', resolvedSessionId);
-        return;
-      }
+    const reviewKey = `ai-learning-review-${resolvedSectionId}-${resolvedSessionId}`;
+    if (localStorage.getItem(reviewKey)) {
+      console.log('[learning-review] skipped: already triggered for session', resolvedSessionId);
+      return;
+    }
 
-      localStorage.setItem(reviewKey, 'true');
+    localStorage.setItem(reviewKey, 'true');
 
-      if (resolvedSessionId !== currentSessionId) {
-        setCurrentSessionId(resolvedSessionId);
-      }
+    if (resolvedSessionId !== currentSessionId) {
+      setCurrentSessionId(resolvedSessionId);
+    }
 
-      const summaryPrompt = '请针对课程学习情况进行总结';
-      const userMessage: ChatMessage = {
-        id: nanoid(),
-        content: summaryPrompt,
-        role: 'user',
-        timestamp: new Date(),
-      };
+    const summaryPrompt = '请针对课程学习情况进行总结';
+    const userMessage: ChatMessage = {
+      id: nanoid(),
+      content: summaryPrompt,
+      role: 'user',
+      timestamp: new Date(),
+    };
 
-      const assistantMessageId = nanoid();
-      const assistantMessage: ChatMessage = {
-        id: assistantMessageId,
-        content: '',
-        role: 'assistant',
-        timestamp: new Date(),
-        isStreaming: true,
-      };
+    const assistantMessageId = nanoid();
+    const assistantMessage: ChatMessage = {
+      id: assistantMessageId,
+      content: '',
+      role: 'assistant',
+      timestamp: new Date(),
+      isStreaming: true,
+    };
 
-      setMessages(prev => [...prev, userMessage, assistantMessage]);
-      setIsTyping(true);
-      setStreamingMessageId(assistantMessageId);
+    setMessages(prev => [...prev, userMessage, assistantMessage]);
+    setIsTyping(true);
+    setStreamingMessageId(assistantMessageId);
 
-      aiChatServer
-        .learningReview({
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    processStreamResponse(
+      assistantMessageId,
+      aiChatServer.learningReview(
+        {
           userId: resolvedUserId,
           sectionId: resolvedSectionId,
           sessionId: resolvedSessionId,
           modelName: selectedModel || undefined,
-        })
-        .then(res => processStreamResponse(assistantMessageId, res));
-    };
-
-    window.addEventListener(AI_LEARNING_REVIEW, handler as EventListener);
-
-    return () => {
-      window.removeEventListener(AI_LEARNING_REVIEW, handler as EventListener);
-    };
-  }, [currentSessionId, sectionId, selectedModel, processStreamResponse]);
-
-  const simulateTyping = useCallback((messageId: string, content: string, reasoning?: string, sources?: Array<{ title: string; url: string }>) => {
-    let currentIndex = 0;
-    const typeInterval = setInterval(() => {
-      setMessages(prev =>
-        prev.map(msg => {
-          if (msg.id === messageId) {
-            const currentContent = content.slice(0, currentIndex);
-            return {
-              ...msg,
-              content: currentContent,
-              isStreaming: currentIndex < content.length,
-              reasoning: currentIndex >= content.length ? reasoning : undefined,
-              sources: currentIndex >= content.length ? sources : undefined,
-            };
-          }
-          return msg;
-        })
-      );
-      currentIndex += Math.random() > 0.1 ? 1 : 0; // Simulate variable typing speed
-
-      if (currentIndex >= content.length) {
-        clearInterval(typeInterval);
-        setIsTyping(false);
-        setStreamingMessageId(null);
-      }
-    }, 50);
-    return () => clearInterval(typeInterval);
-  }, []);
+        },
+        { signal: controller.signal }
+      ),
+      controller.signal
+    );
+  };
+
+  useAppEvent('ai:learning-review', detail => startLearningReview(detail.sectionId));
+
+  /**
+   * 发送一条消息并流式接收回答
+   * 只有附件没有文字时用默认的提问
+   */
   const sendMessage = useCallback(
-    (messageText: string) => {
+    (messageText: string, options: SendOptions = {}) => {
       if (isTyping) return;
 
-      const trimmed = messageText.trim();
+      const attachments = options.attachments?.length ? options.attachments : undefined;
+      const trimmed = messageText.trim() || (attachments ? '请帮我看看附件里的内容' : '');
       if (!trimmed) return;
 
-      const userMessage: ChatMessage = {
-        id: nanoid(),
-        content: trimmed,
-        role: 'user',
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, userMessage]);
+      if (!options.regenerate) {
+        const userMessage: ChatMessage = {
+          id: nanoid(),
+          content: trimmed,
+          role: 'user',
+          timestamp: new Date(),
+          attachments,
+          command: options.command,
+          videoTime: options.videoTime,
+          videoContext: options.videoContext,
+        };
+        setMessages(prev => [...prev, userMessage]);
+      }
+      const modelName = options.modelName ?? (selectedModel || undefined);
+      const personaId = options.personaId ?? selectedPersona?.persona_id;
+      const parentInteractionId = options.parentInteractionId !== undefined ? options.parentInteractionId : parentInteractionOf(messages);
       setIsTyping(true);
       setLeadingQuestions([]);
 
       if (streamingTimerRef.current) {
         window.clearTimeout(streamingTimerRef.current);
       }
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
       streamingTimerRef.current = window.setTimeout(async () => {
         try {
@@ -560,11 +841,10 @@ const AiConversation = () => {
             });
             sessionId = response.data.data.session_id;
             setCurrentSessionId(sessionId);
-            if (sectionId) {
-              localStorage.setItem(`ai-session-${sectionId}`, sessionId);
-            }
+            lastSessionStore.set(sectionId, sessionId);
             console.log('新会话创建成功:', sessionId);
           }
+          if (controller.signal.aborted) return;
 
           const assistantMessageId = nanoid();
           const assistantMessage: ChatMessage = {
@@ -572,29 +852,36 @@ const AiConversation = () => {
             content: '',
             role: 'assistant',
             timestamp: new Date(),
+            modelName,
             isStreaming: true,
           };
           setMessages(prev => [...prev, assistantMessage]);
           setStreamingMessageId(assistantMessageId);
 
-          const response = await aiChatServer.textChatStream({
-            userId: getUserId(),
-            message: trimmed,
-            sessionId,
-            sectionId: sectionId ?? '',
-            personaId: selectedPersona?.persona_id,
-            modelName: selectedModel || undefined,
-            daily: !sectionId,
-          });
-          await processStreamResponse(assistantMessageId, response);
+          const response = aiChatServer.textChatStream(
+            {
+              userId: getUserId(),
+              message: trimmed,
+              attachments,
+              command: options.command,
+              videoTime: options.videoTime,
+              videoContext: options.videoContext,
+              parentInteractionId,
+              sessionId,
+              sectionId: sectionId ?? '',
+              personaId,
+              modelName,
+              daily: !sectionId,
+            },
+            { signal: controller.signal }
+          );
+          await processStreamResponse(assistantMessageId, response, controller.signal);
+          // 会话列表里的对话条数和最近时间变了
+          invalidateQueries(sessionsTag(sectionId));
         } catch (error) {
+          if (controller.signal.aborted) return;
           console.error('AI Chat Error:', error);
-          let message = '对话失败，请检查AI设置和网络情况';
-          // @ts-ignore
-          if (error?.response?.data?.details) {
-            // @ts-ignore
-            message = error.response.data.details
-          }
+          const message = error instanceof TrainingApiError ? error.message : '对话失败，请检查AI设置和网络情况';
           setIsTyping(false);
           setStreamingMessageId(null);
 
@@ -611,20 +898,186 @@ const AiConversation = () => {
         }
       }, 300);
     },
-    [isTyping, currentSessionId, sectionId, selectedPersona, selectedModel, processStreamResponse]
+    [isTyping, messages, currentSessionId, sectionId, selectedPersona, selectedModel, processStreamResponse]
+  );
+
+  /** 在第 index 条消息处新开一个分支，当前的后续消息保存为旧分支 */
+  const forkAt = useCallback(
+    (index: number) => {
+      const key = forkKeyOf(messages, index);
+      const tail = messages.slice(index);
+      setForks(prev => {
+        const fork = prev[key] ?? { tails: [tail], active: 0 };
+        const tails = fork.tails.map((item, i) => (i === fork.active ? tail : item));
+        return { ...prev, [key]: { tails: [...tails, []], active: tails.length } };
+      });
+      setMessages(messages.slice(0, index));
+    },
+    [messages]
+  );
+
+  const switchBranch = useCallback(
+    (key: string, branchIndex: number) => {
+      const fork = forks[key];
+      if (!fork || branchIndex === fork.active) return;
+      const anchor = key === ROOT_FORK ? 0 : messages.findIndex(msg => msg.id === key) + 1;
+      const tails = fork.tails.map((item, i) => (i === fork.active ? messages.slice(anchor) : item));
+      setForks({ ...forks, [key]: { tails, active: branchIndex } });
+      setMessages([...messages.slice(0, anchor), ...tails[branchIndex]]);
+    },
+    [forks, messages]
+  );
+
+  /** 重新生成第 index 条助手消息，原回答保留为另一个分支 */
+  const regenerate = useCallback(
+    (index: number, options: RegenerateOptions) => {
+      const question = messages[index - 1];
+      if (isTyping || question?.role !== 'user') return;
+      forkAt(index);
+      sendMessage(question.content, {
+        ...options,
+        attachments: question.attachments,
+        command: question.command,
+        videoTime: question.videoTime,
+        videoContext: question.videoContext,
+        parentInteractionId: parentInteractionOf(messages.slice(0, index - 1)),
+        regenerate: true,
+      });
+    },
+    [forkAt, isTyping, messages, sendMessage]
+  );
+
+  /** 修改第 index 条用户消息后重新发送，从这里分出新的对话，原来的附件和视频信息一起带上 */
+  const editAndResend = useCallback(
+    (index: number, text: string) => {
+      if (isTyping) return;
+      setEditingMessageId(null);
+      forkAt(index);
+      const { attachments, videoTime, videoContext } = messages[index];
+      sendMessage(text, { attachments, videoTime, videoContext, parentInteractionId: parentInteractionOf(messages.slice(0, index)) });
+    },
+    [forkAt, isTyping, messages, sendMessage]
+  );
+
+  /** 提交对一条回答的评价，成功后在消息上记住结果 */
+  const submitFeedback = useCallback(async (message: ChatMessage, values: FeedbackValues) => {
+    if (!message.interactionId) return;
+    try {
+      await aiChatServer.submitFeedback({ interactionId: message.interactionId, userId: getUserId(), ...values });
+      setMessages(prev => prev.map(msg => (msg.id === message.id ? { ...msg, feedback: values.rating } : msg)));
+    } catch (error) {
+      console.error('提交反馈失败:', error);
+      alert(error instanceof TrainingApiError ? error.message : '提交反馈失败，请重试');
+      throw error;
+    }
+  }, []);
+
+  /** 生成练习题并作为一条助手消息显示，题目不走对话接口，也就不会重新生成或评价 */
+  const startPracticeQuiz = useCallback(
+    async (count?: number) => {
+      if (!sectionId || isTyping) return;
+      const modelName = selectedModel || undefined;
+      const assistantMessageId = nanoid();
+      setMessages(prev => [
+        ...prev,
+        {
+          id: nanoid(),
+          content: count ? `请根据本节内容出 ${count} 道练习题` : '请根据本节内容出几道练习题',
+          role: 'user',
+          timestamp: new Date(),
+          command: { name: 'quiz', input: count ? String(count) : undefined },
+        },
+        { id: assistantMessageId, content: '', role: 'assistant', timestamp: new Date(), modelName, isStreaming: true },
+      ]);
+      setIsTyping(true);
+      setLeadingQuestions([]);
+      const update = (patch: Partial<ChatMessage>) =>
+        setMessages(prev => prev.map(msg => (msg.id === assistantMessageId ? { ...msg, ...patch, isStreaming: false } : msg)));
+      // 和回答一样登记到 abortControllerRef，点停止或切换章节时一并取消
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      try {
+        const response = await aiChatServer.generatePracticeQuiz(
+          {
+            userId: getUserId(),
+            sectionId,
+            sessionId: currentSessionId ?? undefined,
+            count,
+            modelName,
+          },
+          { signal: controller.signal }
+        );
+        update({ content: '来做几道练习题检验一下吧，完成后点“提交答案”查看得分和解析。', quiz: response.data });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          update({ interrupted: true });
+        } else {
+          console.error('生成练习题失败:', error);
+          update({ error: error instanceof TrainingApiError ? error.message : '生成练习题失败，请重试' });
+        }
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsTyping(false);
+        }
+      }
+    },
+    [currentSessionId, isTyping, sectionId, selectedModel]
+  );
+
+  /** 执行输入框里的斜杠命令，发消息的命令和普通消息一样带上附件和视频时间 */
+  const runSlashCommand = useCallback(
+    (name: string, input: string, context: SlashCommandContext) => {
+      const command = findSlashCommand(name);
+      if (!command) {
+        alert(`没有 /${name} 这个命令，输入 /help 查看可用命令；要发送以 / 开头的文字，请在前面加一个空格`);
+        return;
+      }
+      const result = command.run(input, context);
+      if (result.type === 'error') {
+        alert(result.message);
+        return;
+      }
+      setInputValue('');
+      match(result)
+        .with({ type: 'send' }, ({ text, command }) => {
+          sendMessage(text, { command, attachments: composerAttachments, videoTime: pendingVideoTime ?? undefined, videoContext: pendingVideoContext ?? undefined });
+          clearAttachments();
+          setPendingVideoTime(null);
+          setPendingVideoContext(null);
+        })
+        .with({ type: 'quiz' }, ({ count }) => startPracticeQuiz(count))
+        .with({ type: 'set-persona' }, ({ personaId }) => handlePersonaSwitch(personaId))
+        .with({ type: 'set-model' }, ({ modelId }) => setSelectedModel(modelId))
+        .with({ type: 'attach-time' }, ({ seconds }) => setPendingVideoTime(seconds))
+        .with({ type: 'help' }, () => setSlashHelpOpen(true))
+        .exhaustive();
+    },
+    [clearAttachments, composerAttachments, handlePersonaSwitch, pendingVideoContext, pendingVideoTime, sendMessage, startPracticeQuiz]
   );
 
   const handleSubmit: FormEventHandler<HTMLFormElement> = useCallback(
     event => {
       event.preventDefault();
 
-      if (!inputValue.trim() || isTyping) return;
+      if ((!inputValue.trim() && composerAttachments.length === 0) || isTyping || isUploadingAttachments) return;
+
+      const slashCommand = parseSlashCommand(inputValue);
+      if (slashCommand) {
+        // 选区和播放位置变化时不会重新渲染，执行时再读最新的
+        runSlashCommand(slashCommand.name, slashCommand.input, { ...slashContext, selectedText: lastSelectionRef.current, videoTime: videoPosition.get() });
+        return;
+      }
 
       const currentInput = inputValue;
       setInputValue('');
-      sendMessage(currentInput);
+      sendMessage(currentInput, { attachments: composerAttachments, videoTime: pendingVideoTime ?? undefined, videoContext: pendingVideoContext ?? undefined });
+      clearAttachments();
+      setPendingVideoTime(null);
+      setPendingVideoContext(null);
     },
-    [inputValue, isTyping, sendMessage]
+    [inputValue, isTyping, isUploadingAttachments, composerAttachments, clearAttachments, pendingVideoContext, pendingVideoTime, runSlashCommand, sendMessage, slashContext]
   );
 
   const handleLeadingQuestionClick = useCallback(
@@ -657,10 +1110,9 @@ const AiConversation = () => {
 
       // 清空当前消息并设置新的会话ID
       setCurrentSessionId(newSessionId);
-      // 保存到 localStorage
-      if (sectionId) {
-        localStorage.setItem(`ai-session-${sectionId}`, newSessionId);
-      }
+      lastSessionStore.set(sectionId, newSessionId);
+      setForks({});
+      setEditingMessageId(null);
       setMessages([
         {
           id: nanoid(),
@@ -670,6 +1122,9 @@ const AiConversation = () => {
         },
       ]);
       setInputValue('');
+      clearAttachments();
+      setPendingVideoTime(null);
+      setPendingVideoContext(null);
       setIsTyping(false);
       setStreamingMessageId(null);
 
@@ -683,7 +1138,32 @@ const AiConversation = () => {
     } catch (error) {
       console.error('创建新会话失败:', error);
     }
-  }, [fetchLeadingQuestions, sectionId]);
+  }, [clearAttachments, fetchLeadingQuestions, sectionId]);
+
+  // 从历史会话抽屉切换会话
+  const handleSelectSession = useCallback(
+    (sessionId: string) => {
+      stopGeneration();
+      setInputValue('');
+      clearAttachments();
+      setPendingVideoTime(null);
+      setPendingVideoContext(null);
+      loadChatHistory(sessionId);
+    },
+    [clearAttachments, loadChatHistory, stopGeneration]
+  );
+
+  // 删除的是当前会话时，切到剩下的最新会话
+  const handleSessionDeleted = useCallback(
+    (sessionId: string) => {
+      lastSessionStore.forget(sessionId);
+      if (sessionId === currentSessionId) {
+        setCurrentSessionId(null);
+        loadChatHistory();
+      }
+    },
+    [currentSessionId, loadChatHistory]
+  );
 
   const onVoiceClose = useCallback(() => {
     setIsVoiceMode(false);
@@ -704,9 +1184,22 @@ const AiConversation = () => {
           <FileTextIcon />
           <span className='font-medium text-base'>AI对话框</span>
         </div>
-        <Button variant='outline' size='sm' onClick={handleNewSession} disabled={isTyping}>
-          新建对话
-        </Button>
+        <div className='flex items-center gap-2'>
+          {sectionId && (
+            <SessionDrawer
+              userId={getUserId()}
+              sectionId={sectionId}
+              currentSessionId={currentSessionId}
+              disabled={isTyping}
+              onSelect={handleSelectSession}
+              onDeleted={handleSessionDeleted}
+            />
+          )}
+          <ExportMenu sessionId={currentSessionId} disabled={isTyping} />
+          <Button variant='outline' size='sm' onClick={handleNewSession} disabled={isTyping}>
+            新建对话
+          </Button>
+        </div>
       </div>
 
       {/* Voice Mode or Text Mode */}
@@ -749,6 +1242,11 @@ const AiConversation = () => {
                 </SelectContent>
               </Select>
             </div>
+            <Button variant='outline' size='icon' title='管理人设' asChild>
+              <Link to={params.courseId ? `/app/personas?courseId=${params.courseId}` : '/app/personas'}>
+                <UserCogIcon />
+              </Link>
+            </Button>
 
             <div className='flex items-center min-w-[160px] h-10'>
               <Select value={selectedModel} onValueChange={setSelectedModel}>
@@ -766,80 +1264,115 @@ const AiConversation = () => {
             </div>
           </div>
           {/* Conversation Area */}
-          <Conversation className='flex-1'>
-            <ConversationContent className='space-y-4'>
-              {isLoadingHistory && (
-                <div className='flex items-center justify-center py-4'>
-                  <Loader size={16} />
-                  <span className='ml-2 text-muted-foreground text-sm'>Loading chat history...</span>
-                </div>
-              )}
-              {!isLoadingHistory && leadingQuestions.length > 0 && (
-                <div className='rounded-lg border border-dashed border-muted bg-muted/40 p-4'>
-                  <div className='mb-3 text-xs font-medium text-muted-foreground'>预设问题</div>
-                  <div className='grid gap-2'>
-                    {leadingQuestions.map(question => (
-                      <Button
-                        key={question.id}
-                        type='button'
-                        variant='outline'
-                        size='sm'
-                        className='justify-start whitespace-normal text-left'
-                        onClick={() => handleLeadingQuestionClick(question.text)}
-                      >
-                        {question.text}
-                      </Button>
-                    ))}
+          <CitationProvider sectionId={sectionId}>
+            <Conversation className='flex-1'>
+              <ConversationContent className='space-y-4'>
+                {isLoadingHistory && (
+                  <div className='flex items-center justify-center py-4'>
+                    <Loader size={16} />
+                    <span className='ml-2 text-muted-foreground text-sm'>Loading chat history...</span>
+                  </div>
+                )}
+                {!isLoadingHistory && leadingQuestions.length > 0 && (
+                  <div className='rounded-lg border border-dashed border-muted bg-muted/40 p-4'>
+                    <div className='mb-3 text-xs font-medium text-muted-foreground'>预设问题</div>
+                    <div className='grid gap-2'>
+                      {leadingQuestions.map(question => (
+                        <Button
+                          key={question.id}
+                          type='button'
+                          variant='outline'
+                          size='sm'
+                          className='justify-start whitespace-normal text-left'
+                          onClick={() => handleLeadingQuestionClick(question.text)}
+                        >
+                          {question.text}
+                        </Button>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
-              {messages.map(message => (
-                <div key={message.id} className='space-y-3'>
-                  <Message from={message.role}>
-                    <MessageContent>
-                      {message.isStreaming && message.content === '' ? (
-                        <div className='flex items-center gap-2'>
-                          <Loader size={14} />
-                          <span className='text-muted-foreground text-sm'>Thinking...</span>
-                        </div>
-                      ) : message.role === 'assistant' ? (
-                        <Streamdown>{message.content}</Streamdown>
+                )}
+                {messages.map((message, index) => {
+                  const forkKey = forkKeyOf(messages, index);
+                  const fork = forks[forkKey];
+                  const isEditing = editingMessageId === message.id;
+                  const view = isEditing ? (
+                    <UserMessageEditor
+                      defaultValue={message.content}
+                      onSubmit={text => editAndResend(index, text)}
+                      onCancel={() => setEditingMessageId(null)}
+                    />
+                  ) : (
+                    <ChatMessageView message={message} />
+                  );
+
+                  return (
+                    <div
+                      key={message.id}
+                      data-interaction-id={message.role === 'assistant' ? message.interactionId : undefined}
+                      className={cn(
+                        'space-y-3 rounded-lg transition-shadow',
+                        message.interactionId && message.interactionId === highlightedInteractionId && 'ring-2 ring-primary ring-offset-4'
+                      )}
+                    >
+                      {fork && fork.tails.length > 1 ? (
+                        <Branch
+                          key={`${forkKey}-${fork.tails.length}-${fork.active}`}
+                          defaultBranch={fork.active}
+                          onBranchChange={branchIndex => switchBranch(forkKey, branchIndex)}
+                        >
+                          <BranchMessages>
+                            {fork.tails.map((tail, branchIndex) => (
+                              <div key={branchIndex} className='space-y-3'>
+                                {branchIndex === fork.active ? (
+                                  view
+                                ) : tail[0] ? (
+                                  <ChatMessageView message={tail[0]} />
+                                ) : (
+                                  <p className='text-center text-muted-foreground text-xs'>这个分支没有内容</p>
+                                )}
+                              </div>
+                            ))}
+                          </BranchMessages>
+                          <BranchSelector from={message.role}>
+                            <BranchPrevious disabled={isTyping} />
+                            <BranchPage />
+                            <BranchNext disabled={isTyping} />
+                            {message.modelName && (
+                              <span className='text-muted-foreground text-xs'>
+                                {modelOptions.find(model => model.id === message.modelName)?.displayName ?? message.modelName}
+                              </span>
+                            )}
+                          </BranchSelector>
+                        </Branch>
                       ) : (
-                        <p className='leading-7'>{message.content}</p>
+                        view
                       )}
-                    </MessageContent>
-                    <MessageAvatar
-                      src={message.role === 'user' ? 'https://github.com/dovazencot.png' : 'https://github.com/vercel.png'}
-                      name={message.role === 'user' ? 'User' : 'AI'}
-                    />
-                  </Message>
-                  {/* Reasoning */}
-                  {message.reasoning && (
-                    <div className='ml-10'>
-                      <Reasoning isStreaming={message.isStreaming} defaultOpen={false}>
-                        <ReasoningTrigger />
-                        <ReasoningContent>{message.reasoning}</ReasoningContent>
-                      </Reasoning>
+                      {!message.isStreaming &&
+                        !isEditing &&
+                        message.command?.name !== 'quiz' &&
+                        !message.quiz &&
+                        (message.role === 'assistant' ? (
+                          <AssistantMessageActions
+                            models={modelOptions}
+                            personas={personas}
+                            currentModel={selectedModel || undefined}
+                            currentPersonaId={selectedPersona?.persona_id}
+                            disabled={isTyping}
+                            onRegenerate={messages[index - 1]?.role === 'user' ? options => regenerate(index, options) : undefined}
+                            feedback={message.feedback}
+                            onFeedback={message.interactionId ? values => submitFeedback(message, values) : undefined}
+                          />
+                        ) : (
+                          <UserMessageActions disabled={isTyping} onEdit={() => setEditingMessageId(message.id)} />
+                        ))}
                     </div>
-                  )}
-                  {/* Sources */}
-                  {message.sources && message.sources.length > 0 && (
-                    <div className='ml-10'>
-                      <Sources>
-                        <SourcesTrigger count={message.sources.length} />
-                        <SourcesContent>
-                          {message.sources.map((source, index) => (
-                            <Source key={index} href={source.url} title={source.title} />
-                          ))}
-                        </SourcesContent>
-                      </Sources>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </ConversationContent>
-            <ConversationScrollButton />
-          </Conversation>
+                  );
+                })}
+              </ConversationContent>
+              <ConversationScrollButton />
+            </Conversation>
+          </CitationProvider>
           {/* Input Area */}
           <div className='px-4 pt-1 pb-4 bg-white'>
             {/* Toolbar buttons */}
@@ -850,36 +1383,110 @@ const AiConversation = () => {
               <Button variant={'outline'} disabled={isTyping}>
                 <ArrowUpIcon className='size-5 text-muted-foreground' />
               </Button>
+              <Button variant={'outline'} title='添加图片或 PDF' disabled={isTyping} onClick={() => fileInputRef.current?.click()}>
+                <PaperclipIcon className='size-5 text-muted-foreground' />
+              </Button>
+              <input
+                ref={fileInputRef}
+                type='file'
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                className='hidden'
+                onChange={e => {
+                  const files = Array.from(e.target.files ?? []);
+                  // 清空后才能重复选择同一个文件
+                  e.target.value = '';
+                  addAttachments(files);
+                }}
+              />
               <Button variant={'outline'} disabled={isTyping || !isVoiceModeAble} onClick={() => setIsVoiceMode(true)}>
                 <PhoneIcon className='size-5 text-muted-foreground' />
               </Button>
+              <SlashCommandHelp open={slashHelpOpen} onOpenChange={setSlashHelpOpen} disabled={isTyping} />
             </div>
 
-            <form onSubmit={handleSubmit}>
+            {pendingAttachments.length > 0 && (
+              <AttachmentPreviewList items={pendingAttachments} onRemove={removeAttachment} />
+            )}
+            {pendingVideoTime !== null && (
+              <Badge variant='secondary' className='mb-2 gap-1'>
+                <ClockIcon />
+                {videoTimeLabel(pendingVideoTime)}
+                <button type='button' title='移除视频时间' onClick={() => setPendingVideoTime(null)}>
+                  <XIcon className='size-3' />
+                </button>
+              </Badge>
+            )}
+            {pendingVideoContext && (
+              <Badge variant='secondary' className='mb-2 max-w-full gap-1' title={pendingVideoContext.subtitle?.text}>
+                <FilmIcon />
+                <span className='truncate'>{videoContextLabel(pendingVideoContext)}</span>
+                <button type='button' title='移除视频上下文' onClick={() => setPendingVideoContext(null)}>
+                  <XIcon className='size-3' />
+                </button>
+              </Badge>
+            )}
+            <form
+              ref={formRef}
+              onSubmit={handleSubmit}
+              onDragOver={e => {
+                if (isTyping || !e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFile(true);
+              }}
+              onDragLeave={() => setIsDraggingFile(false)}
+              onDrop={e => {
+                setIsDraggingFile(false);
+                if (isTyping || e.dataTransfer.files.length === 0) return;
+                e.preventDefault();
+                addAttachments(Array.from(e.dataTransfer.files));
+              }}
+            >
               {/* Text input with embedded send Button */}
               <div className='relative'>
+                {slashMenu.open && !isTyping && (
+                  <SlashCommandMenu suggestions={slashMenu.suggestions} activeIndex={slashMenu.activeIndex} onSelect={slashMenu.select} />
+                )}
                 <Textarea
                   name='message'
                   value={inputValue}
                   onChange={e => setInputValue(e.target.value)}
+                  onPaste={e => {
+                    // 粘贴截图等文件时作为附件，纯文字照常粘贴
+                    if (e.clipboardData.files.length === 0) return;
+                    e.preventDefault();
+                    addAttachments(Array.from(e.clipboardData.files));
+                  }}
                   onKeyDown={e => {
+                    if (slashMenu.handleKeyDown(e)) return;
                     if (e.key === 'Enter' && !e.shiftKey) {
                       e.preventDefault();
-                      if (inputValue.trim() && !isTyping) {
+                      if (!isTyping) {
                         handleSubmit(e as any);
                       }
                     }
                   }}
-                  placeholder='输入你的问题......'
+                  placeholder='输入你的问题，可以粘贴或拖入图片、PDF，输入 / 使用命令......'
                   disabled={isTyping}
-                  className='w-full min-h-[120px] max-h-[300px]'
+                  className={cn('w-full min-h-[120px] max-h-[300px]', isDraggingFile && 'border-primary ring-2 ring-primary/30')}
                   rows={1}
                 />
 
-                {/* Send Button inside input */}
-                <Button type='submit' variant='ghost' disabled={!inputValue.trim() || isTyping} className='absolute right-3 top-1/2 -translate-y-1/2'>
-                  <ArrowRightIcon />
-                </Button>
+                {/* Send Button inside input, switches to Stop while generating */}
+                {isTyping ? (
+                  <Button type='button' variant='ghost' title='停止生成' onClick={stopGeneration} className='absolute right-3 top-1/2 -translate-y-1/2'>
+                    <SquareIcon className='fill-current' />
+                  </Button>
+                ) : (
+                  <Button
+                    type='submit'
+                    variant='ghost'
+                    disabled={(!inputValue.trim() && composerAttachments.length === 0) || isUploadingAttachments}
+                    className='absolute right-3 top-1/2 -translate-y-1/2'
+                  >
+                    <ArrowRightIcon />
+                  </Button>
+                )}
               </div>
             </form>
           </div>
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { PencilIcon, RefreshCwIcon, SlidersHorizontalIcon, ThumbsDownIcon, ThumbsUpIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Action, Actions } from '@/components/ui/shadcn-io/ai/actions';
+import { cn } from '@/lib/utils';
+import { answerFeedbackReasons, type AiPersona, type AnswerFeedbackReason } from '@/server/training-server';
+
+/** 重新生成时可以换用的模型和人设，不传表示沿用当前设置 */
+export type RegenerateOptions = {
+  modelName?: string;
+  personaId?: string;
+};
+
+type ModelOption = { id: string; displayName: string };
+
+export type FeedbackValues = {
+  rating: 'up' | 'down';
+  reasons?: AnswerFeedbackReason[];
+  comment?: string;
+};
+
+/** 点赞直接提交，点踩时可以选择原因并补充说明 */
+const FeedbackActions = ({ value, onSubmit }: { value?: 'up' | 'down'; onSubmit: (values: FeedbackValues) => Promise<void> }) => {
+  const [open, setOpen] = useState(false);
+  const [reasons, setReasons] = useState<AnswerFeedbackReason[]>([]);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  async function submit(values: FeedbackValues) {
+    setSubmitting(true);
+    try {
+      await onSubmit(values);
+      setOpen(false);
+    } catch {
+      // 失败时调用方已经提示，保留弹窗里填写的内容方便重试
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <Action tooltip='有帮助' disabled={submitting} className={cn(value === 'up' && 'text-primary')} onClick={() => submit({ rating: 'up' })}>
+        <ThumbsUpIcon className={cn('size-4', value === 'up' && 'fill-current')} />
+      </Action>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Action tooltip='没帮助' disabled={submitting} className={cn(value === 'down' && 'text-destructive')}>
+            <ThumbsDownIcon className={cn('size-4', value === 'down' && 'fill-current')} />
+          </Action>
+        </PopoverTrigger>
+        <PopoverContent className='flex w-72 flex-col gap-3' align='start'>
+          <span className='font-medium text-sm'>这个回答哪里有问题？</span>
+          <div className='grid grid-cols-2 gap-2'>
+            {(Object.keys(answerFeedbackReasons) as AnswerFeedbackReason[]).map(reason => (
+              <label key={reason} className='flex items-center gap-2 text-sm'>
+                <Checkbox
+                  checked={reasons.includes(reason)}
+                  onCheckedChange={checked => setReasons(prev => (checked === true ? [...prev, reason] : prev.filter(item => item !== reason)))}
+                />
+                {answerFeedbackReasons[reason]}
+              </label>
+            ))}
+          </div>
+          <Textarea placeholder='补充说明（可选）' value={comment} onChange={e => setComment(e.target.value)} className='min-h-[60px]' />
+          <Button size='sm' disabled={submitting} onClick={() => submit({ rating: 'down', reasons, comment: comment.trim() || undefined })}>
+            提交反馈
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+};
+
+type RegenerateActionsProps = {
+  models: ModelOption[];
+  personas: AiPersona[];
+  currentModel?: string;
+  currentPersonaId?: string;
+  disabled?: boolean;
+  onRegenerate: (options: RegenerateOptions) => void;
+};
+
+/** 按当前设置重新生成，或换个模型、人设再生成一次 */
+const RegenerateActions = ({ models, personas, currentModel, currentPersonaId, disabled, onRegenerate }: RegenerateActionsProps) => {
+  const [open, setOpen] = useState(false);
+  const [modelName, setModelName] = useState(currentModel);
+  const [personaId, setPersonaId] = useState(currentPersonaId);
+
+  return (
+    <>
+      <Action tooltip='重新生成' disabled={disabled} onClick={() => onRegenerate({})}>
+        <RefreshCwIcon className='size-4' />
+      </Action>
+      <Popover
+        open={open}
+        onOpenChange={next => {
+          if (next) {
+            setModelName(currentModel);
+            setPersonaId(currentPersonaId);
+          }
+          setOpen(next);
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Action tooltip='换个设置重新生成' disabled={disabled}>
+            <SlidersHorizontalIcon className='size-4' />
+          </Action>
+        </PopoverTrigger>
+        <PopoverContent className='flex w-64 flex-col gap-3' align='start'>
+          <div className='flex flex-col gap-1'>
+            <span className='text-muted-foreground text-xs'>模型</span>
+            <Select value={modelName} onValueChange={setModelName}>
+              <SelectTrigger className='w-full'>
+                <SelectValue placeholder='默认模型' />
+              </SelectTrigger>
+              <SelectContent>
+                {models.map(model => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.displayName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='flex flex-col gap-1'>
+            <span className='text-muted-foreground text-xs'>人设</span>
+            <Select value={personaId} onValueChange={setPersonaId}>
+              <SelectTrigger className='w-full'>
+                <SelectValue placeholder='默认人设' />
+              </SelectTrigger>
+              <SelectContent>
+                {personas.map(persona => (
+                  <SelectItem key={persona.persona_id} value={persona.persona_id}>
+                    {persona.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            size='sm'
+            onClick={() => {
+              setOpen(false);
+              onRegenerate({ modelName, personaId });
+            }}
+          >
+            重新生成
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+};
+
+/** 助手消息下方的操作：有 interaction_id 的回答可以点赞、点踩，前面有提问的回答可以重新生成 */
+export const AssistantMessageActions = ({
+  onRegenerate,
+  feedback,
+  onFeedback,
+  ...props
+}: Omit<RegenerateActionsProps, 'onRegenerate'> & {
+  /** 前面没有提问（例如欢迎语）时不能重新生成 */
+  onRegenerate?: (options: RegenerateOptions) => void;
+  feedback?: 'up' | 'down';
+  /** 回答还没有 interaction_id 时不能反馈 */
+  onFeedback?: (values: FeedbackValues) => Promise<void>;
+}) => (
+  <Actions className='ml-10'>
+    {onFeedback && <FeedbackActions value={feedback} onSubmit={onFeedback} />}
+    {onRegenerate && <RegenerateActions {...props} onRegenerate={onRegenerate} />}
+  </Actions>
+);
+
+/** 用户消息下方的编辑按钮，编辑后重新发送会从这条消息分出一个新分支 */
+export const UserMessageActions = ({ disabled, onEdit }: { disabled?: boolean; onEdit: () => void }) => (
+  <Actions className='mr-10 justify-end'>
+    <Action tooltip='编辑后重新发送' disabled={disabled} onClick={onEdit}>
+      <PencilIcon className='size-4' />
+    </Action>
+  </Actions>
+);
+
+/** 编辑一条已发送的用户消息 */
+export const UserMessageEditor = ({
+  defaultValue,
+  onSubmit,
+  onCancel,
+}: {
+  defaultValue: string;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}) => {
+  const [value, setValue] = useState(defaultValue);
+
+  return (
+    <div className='ml-10 flex flex-col gap-2'>
+      <Textarea autoFocus value={value} onChange={e => setValue(e.target.value)} className='min-h-[80px]' />
+      <div className='flex justify-end gap-2'>
+        <Button variant='outline' size='sm' onClick={onCancel}>
+          取消
+        </Button>
+        <Button size='sm' disabled={!value.trim() || value.trim() === defaultValue.trim()} onClick={() => onSubmit(value.trim())}>
+          发送
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useParams } from 'react-router';
+import { RotateCcwIcon } from 'lucide-react';
+import Selection, { type Option } from '@/components/examination/selection';
+import ShortAnswer from '@/components/examination/short-answer';
+import { Button } from '@/components/ui/button';
+import { getLoginUser } from '@/containers/auth-middleware';
+import { TrainingApiError } from '@/lib/http-error';
+import { aiChatServer, type PracticeGrade, type PracticeQuestion, type PracticeQuiz as PracticeQuizData } from '@/server/training-server';
+
+/** 每道题的作答，选择题是选中的 option_id，简答题是只有一项的答案文字 */
+type PracticeAnswers = Record<string, string[]>;
+
+function isAnswered(answer: string[] | undefined) {
+  return !!answer?.some(value => value.trim());
+}
+
+/** 选择题选中的和正确选项完全一致才得分，不给部分分 */
+function gradeChoice(question: PracticeQuestion, selected: string[]): PracticeGrade {
+  const correct = question.options.filter(option => option.is_correct).map(option => option.option_id);
+  const right = correct.length === selected.length && correct.every(id => selected.includes(id));
+  return { score: right ? question.score : 0, feedback: question.answer };
+}
+
+const PracticeQuestionView = ({
+  question,
+  answer,
+  grade,
+  disabled,
+  onAnswer,
+}: {
+  question: PracticeQuestion;
+  answer?: string[];
+  grade?: PracticeGrade;
+  disabled: boolean;
+  onAnswer: (questionId: string, answer: string[]) => void;
+}) => {
+  const questionId = question.question_id;
+  // ShortAnswer 在 onChange 变化时会回调一次，必须保持引用稳定
+  const handleShortAnswer = useCallback((value: string) => onAnswer(questionId, [value]), [onAnswer, questionId]);
+  const options = useMemo<Option[]>(
+    () =>
+      question.options.map(option => ({
+        id: option.option_id,
+        value: option.option_id,
+        label: option.option_text,
+        is_correct: option.is_correct,
+      })),
+    [question.options]
+  );
+
+  if (question.type === 'short') {
+    return (
+      <ShortAnswer
+        compact
+        question={question.question}
+        answerKey={question.answer}
+        ai_feedback={grade?.feedback}
+        score={question.score}
+        user_score={grade?.score}
+        explanation={!!grade}
+        disabled={disabled || !!grade}
+        onChange={handleShortAnswer}
+      />
+    );
+  }
+  return (
+    <div className='w-full'>
+      <Selection
+        compact
+        question={question.question}
+        answerKey={question.answer}
+        options={options}
+        mode={question.type}
+        value={answer ?? []}
+        onChange={value => onAnswer(questionId, value)}
+        score={question.score}
+        user_score={grade?.score}
+        explanation={!!grade}
+        disabled={disabled || !!grade}
+      />
+      {grade && question.answer && (
+        <p className='mt-1 text-sm'>
+          <span className='font-bold'>解析：</span>
+          {question.answer}
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * 对话里的练习题：选择题在本地判分，简答题交给 AI 批改
+ * 作答和得分只保存在这条消息里，不提交到正式的习题成绩
+ */
+export const PracticeQuiz = ({ quiz, modelName }: { quiz: PracticeQuizData; modelName?: string }) => {
+  const params = useParams();
+  const [round, setRound] = useState(0);
+  const [answers, setAnswers] = useState<PracticeAnswers>({});
+  const [grades, setGrades] = useState<Record<string, PracticeGrade> | null>(null);
+  const [grading, setGrading] = useState(false);
+
+  const handleAnswer = useCallback((questionId: string, answer: string[]) => {
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+  }, []);
+
+  const gradeQuestion = async (question: PracticeQuestion): Promise<PracticeGrade> => {
+    const answer = answers[question.question_id] ?? [];
+    if (question.type !== 'short') {
+      return gradeChoice(question, answer);
+    }
+    if (!isAnswered(answer)) {
+      return { score: 0, feedback: '未作答' };
+    }
+    const response = await aiChatServer.gradePracticeAnswer({
+      userId: getLoginUser()?.user_id ?? '',
+      sectionId: params.sectionId ?? '',
+      quizId: quiz.quiz_id,
+      questionId: question.question_id,
+      question: question.question,
+      referenceAnswer: question.answer,
+      answer: answer[0],
+      score: question.score,
+      modelName,
+    });
+    return response.data;
+  };
+
+  const submit = async () => {
+    const unanswered = quiz.questions.filter(question => !isAnswered(answers[question.question_id])).length;
+    if (unanswered > 0 && !confirm(`还有 ${unanswered} 道题没有作答，确定提交吗？`)) return;
+    setGrading(true);
+    try {
+      const results = await Promise.all(quiz.questions.map(gradeQuestion));
+      setGrades(Object.fromEntries(quiz.questions.map((question, index) => [question.question_id, results[index]])));
+    } catch (error) {
+      console.error('批改练习题失败:', error);
+      alert(error instanceof TrainingApiError ? error.message : '批改失败，请重试');
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  const retry = () => {
+    setAnswers({});
+    setGrades(null);
+    // 换一个 key 让题目组件重新挂载，清掉简答题里的输入并重新打乱选项
+    setRound(prev => prev + 1);
+  };
+
+  const totalScore = quiz.questions.reduce((sum, question) => sum + question.score, 0);
+  const userScore = grades ? Object.values(grades).reduce((sum, grade) => sum + grade.score, 0) : 0;
+
+  return (
+    <div className='mt-2 flex w-full flex-col gap-4 rounded-md border bg-background p-3 text-foreground'>
+      <div className='text-muted-foreground text-xs'>练习题共 {quiz.questions.length} 道，只用于自测，结果不计入正式成绩</div>
+      {quiz.questions.map(question => (
+        <PracticeQuestionView
+          key={`${round}-${question.question_id}`}
+          question={question}
+          answer={answers[question.question_id]}
+          grade={grades?.[question.question_id]}
+          disabled={grading}
+          onAnswer={handleAnswer}
+        />
+      ))}
+      {grades ? (
+        <div className='flex items-center justify-between'>
+          <span className='font-semibold'>
+            得分 {userScore}/{totalScore}
+          </span>
+          <Button type='button' size='sm' variant='outline' onClick={retry}>
+            <RotateCcwIcon />
+            再练一次
+          </Button>
+        </div>
+      ) : (
+        <Button type='button' size='sm' className='self-end' disabled={grading} onClick={submit}>
+          {grading ? '批改中...' : '提交答案'}
+        </Button>
+      )}
+    </div>
+  );
+};
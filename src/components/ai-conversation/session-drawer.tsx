@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { CheckIcon, HistoryIcon, PencilIcon, Trash2Icon, XIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useAutoCache } from '@/containers/auto-cache';
+import { cn } from '@/lib/utils';
+import { aiChatServer, sessionsTag, type SessionSummary } from '@/server/training-server';
+
+function formatSessionTime(date: Date) {
+  return date.toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/** 会话在列表里显示的名字：重命名的标题 > 第一条提问 > 创建时间 */
+function sessionTitle(session: SessionSummary) {
+  return session.title || session.preview || `${formatSessionTime(session.first_interaction)} 的对话`;
+}
+
+/** 会话列表中的一项，支持就地重命名 */
+const SessionItem = ({
+  session,
+  active,
+  disabled,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  session: SessionSummary;
+  active: boolean;
+  disabled?: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => Promise<void>;
+  onDelete: () => void;
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState('');
+
+  async function submit() {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== session.title) {
+      await onRename(trimmed);
+    }
+    setEditing(false);
+  }
+
+  if (editing) {
+    return (
+      <div className='flex items-center gap-1 rounded-md border p-2'>
+        <Input
+          autoFocus
+          className='h-8'
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') submit();
+            if (e.key === 'Escape') setEditing(false);
+          }}
+        />
+        <Button variant='ghost' size='icon' className='size-8' title='保存' onClick={submit}>
+          <CheckIcon />
+        </Button>
+        <Button variant='ghost' size='icon' className='size-8' title='取消' onClick={() => setEditing(false)}>
+          <XIcon />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'group flex items-start gap-2 rounded-md border p-2 hover:bg-muted/50',
+        active && 'border-primary bg-primary/5',
+        disabled ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'
+      )}
+      onClick={() => !disabled && !active && onSelect()}
+    >
+      <div className='min-w-0 flex-1'>
+        <div className='truncate font-medium text-sm'>{sessionTitle(session)}</div>
+        <div className='text-muted-foreground text-xs'>
+          {session.interaction_count} 条对话 · {formatSessionTime(session.last_interaction)}
+        </div>
+      </div>
+      <div className='flex shrink-0 opacity-0 group-hover:opacity-100'>
+        <Button
+          variant='ghost'
+          size='icon'
+          className='size-7'
+          title='重命名'
+          onClick={e => {
+            e.stopPropagation();
+            setTitle(session.title || session.preview || '');
+            setEditing(true);
+          }}
+        >
+          <PencilIcon className='size-3.5' />
+        </Button>
+        <Button
+          variant='ghost'
+          size='icon'
+          className='size-7'
+          title='删除'
+          disabled={disabled}
+          onClick={e => {
+            e.stopPropagation();
+            onDelete();
+          }}
+        >
+          <Trash2Icon className='size-3.5' />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 当前章节的历史会话抽屉
+ * 列出用户在这一节的所有会话，可以切换、重命名和删除
+ */
+export const SessionDrawer = ({
+  userId,
+  sectionId,
+  currentSessionId,
+  disabled,
+  onSelect,
+  onDeleted,
+}: {
+  userId: string;
+  sectionId?: string;
+  currentSessionId: string | null;
+  /** 正在生成回答时不允许切换和删除 */
+  disabled?: boolean;
+  onSelect: (sessionId: string) => void;
+  onDeleted: (sessionId: string) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const { data, loading } = useAutoCache(aiChatServer.getSessionsByUserAndSection, [userId, sectionId], undefined, undefined, {
+    tags: [sessionsTag(sectionId)],
+  });
+  const sessions = [...(data?.data.data.sessions ?? [])].sort((a, b) => b.last_interaction.getTime() - a.last_interaction.getTime());
+
+  async function rename(session: SessionSummary, title: string) {
+    try {
+      await aiChatServer.renameSession(session.session_id, title, sectionId);
+    } catch (error) {
+      console.error('重命名会话失败:', error);
+      alert('重命名失败，请重试');
+    }
+  }
+
+  async function remove(session: SessionSummary) {
+    if (!confirm(`确定删除「${sessionTitle(session)}」吗？对话记录将无法恢复`)) return;
+    try {
+      await aiChatServer.deleteSession(session.session_id, sectionId);
+      onDeleted(session.session_id);
+    } catch (error) {
+      console.error('删除会话失败:', error);
+      alert('删除失败，请重试');
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant='outline' size='sm' title='历史会话'>
+          <HistoryIcon />
+        </Button>
+      </SheetTrigger>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>历史会话</SheetTitle>
+          <SheetDescription>{sectionId ? '本节的所有对话' : '日常对话'}</SheetDescription>
+        </SheetHeader>
+        <div className='flex flex-1 flex-col gap-2 overflow-auto px-4 pb-4'>
+          {loading && sessions.length === 0 && <div className='text-muted-foreground text-sm'>loading...</div>}
+          {!loading && sessions.length === 0 && <div className='text-muted-foreground text-sm'>还没有会话，发送第一条消息后会自动创建</div>}
+          {sessions.map(session => (
+            <SessionItem
+              key={session.session_id}
+              session={session}
+              active={session.session_id === currentSessionId}
+              disabled={disabled}
+              onSelect={() => {
+                onSelect(session.session_id);
+                setOpen(false);
+              }}
+              onRename={title => rename(session, title)}
+              onDelete={() => remove(session)}
+            />
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
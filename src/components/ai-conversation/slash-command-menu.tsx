@@ -0,0 +1,58 @@
+import { SlashIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { slashCommands, type SlashSuggestion } from './slash-commands';
+
+/** 输入框上方的命令补全列表 */
+export const SlashCommandMenu = ({
+  suggestions,
+  activeIndex,
+  onSelect,
+}: {
+  suggestions: SlashSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: SlashSuggestion) => void;
+}) => (
+  <div className='absolute bottom-full left-0 z-10 mb-1 max-h-60 w-full overflow-auto rounded-md border bg-popover p-1 shadow-md'>
+    {suggestions.map((suggestion, index) => (
+      <button
+        key={suggestion.value}
+        type='button'
+        className={cn('flex w-full items-baseline gap-2 rounded-sm px-2 py-1.5 text-left text-sm', index === activeIndex && 'bg-accent')}
+        // 不抢输入框的焦点
+        onMouseDown={e => e.preventDefault()}
+        onClick={() => onSelect(suggestion)}
+      >
+        <span className='font-mono'>{suggestion.label}</span>
+        {suggestion.description && <span className='truncate text-muted-foreground text-xs'>{suggestion.description}</span>}
+      </button>
+    ))}
+  </div>
+);
+
+/** 列出所有可用命令，输入 /help 时也会打开 */
+export const SlashCommandHelp = ({ open, onOpenChange, disabled }: { open: boolean; onOpenChange: (open: boolean) => void; disabled?: boolean }) => (
+  <Popover open={open} onOpenChange={onOpenChange}>
+    <PopoverTrigger asChild>
+      <Button variant={'outline'} title='斜杠命令' disabled={disabled}>
+        <SlashIcon className='size-5 text-muted-foreground' />
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className='w-80' align='start'>
+      <div className='mb-2 font-medium text-sm'>斜杠命令</div>
+      <div className='flex flex-col gap-2'>
+        {slashCommands().map(command => (
+          <div key={command.name} className='text-sm'>
+            <span className='font-mono'>
+              /{command.name}
+              {command.usage && ` ${command.usage}`}
+            </span>
+            <p className='text-muted-foreground text-xs'>{command.description}</p>
+          </div>
+        ))}
+      </div>
+      <p className='mt-3 text-muted-foreground text-xs'>在输入框里输入 / 开始，Tab 或回车补全，Esc 关闭提示</p>
+    </PopoverContent>
+  </Popover>
+);
@@ -0,0 +1,178 @@
+import { formatClock } from '@/lib/subtitle';
+import type { AiPersona, ChatCommand } from '@/server/training-server';
+
+/** 执行命令时可以用到的对话状态 */
+export interface SlashCommandContext {
+  sectionId?: string;
+  personas: AiPersona[];
+  models: { id: string; displayName: string }[];
+  /** 最近一次在页面上选中的文字 */
+  selectedText: string;
+  /** 视频当前播放到的秒数，页面上没有视频时为 undefined */
+  videoTime?: number;
+}
+
+/** 命令的执行结果，由对话组件负责落实 */
+export type SlashCommandResult =
+  /** 发送一条消息，text 是显示在对话里的用户消息 */
+  | { type: 'send'; text: string; command: ChatCommand }
+  /** 生成练习题，在对话里作答 */
+  | { type: 'quiz'; count?: number }
+  | { type: 'set-persona'; personaId: string }
+  | { type: 'set-model'; modelId: string }
+  /** 把视频时间附加到下一条消息 */
+  | { type: 'attach-time'; seconds: number }
+  | { type: 'help' }
+  | { type: 'error'; message: string };
+
+export interface SlashCommand {
+  /** 命令名，不带斜杠 */
+  name: string;
+  /** 参数说明，没有参数的命令不填 */
+  usage?: string;
+  description: string;
+  /** 补全参数，返回完整的参数值 */
+  complete?: (input: string, context: SlashCommandContext) => string[];
+  run: (input: string, context: SlashCommandContext) => SlashCommandResult;
+}
+
+/** 自动补全的一项，value 是选中后输入框里的完整内容 */
+export interface SlashSuggestion {
+  value: string;
+  label: string;
+  description?: string;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+/** 注册命令，同名命令会被覆盖 */
+export function registerSlashCommand(command: SlashCommand) {
+  registry.set(command.name, command);
+}
+
+export function slashCommands(): SlashCommand[] {
+  return [...registry.values()];
+}
+
+/** 解析 `/name 参数`，不是命令时返回 undefined；开头有空格时不当作命令，方便发送以 / 开头的文字 */
+export function parseSlashCommand(text: string): { name: string; input: string } | undefined {
+  const match = text.trimEnd().match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+  return match ? { name: match[1], input: (match[2] ?? '').trim() } : undefined;
+}
+
+export function findSlashCommand(name: string): SlashCommand | undefined {
+  return registry.get(name);
+}
+
+/** 输入框内容对应的补全：先补全命令名，命令名完整后补全参数 */
+export function slashSuggestions(text: string, context: SlashCommandContext): SlashSuggestion[] {
+  const match = text.match(/^\/(\S*)(\s+(.*))?$/s);
+  if (!match) return [];
+  const [, name, hasInput, input = ''] = match;
+  if (!hasInput) {
+    return slashCommands()
+      .filter(command => command.name.startsWith(name))
+      .map(command => ({
+        value: `/${command.name}${command.usage ? ' ' : ''}`,
+        label: `/${command.name}${command.usage ? ` ${command.usage}` : ''}`,
+        description: command.description,
+      }));
+  }
+  const command = findSlashCommand(name);
+  return (command?.complete?.(input.trim(), context) ?? []).map(value => ({ value: `/${name} ${value}`, label: value }));
+}
+
+/** 没有章节时课程相关的命令不可用 */
+function requireSection(context: SlashCommandContext): SlashCommandResult | undefined {
+  return context.sectionId ? undefined : { type: 'error', message: '日常对话模式下没有课程内容，请在章节页面使用这个命令' };
+}
+
+/** 名称完全相同的优先，否则取唯一一个包含关键字的 */
+function pickByName<T>(items: T[], input: string, names: (item: T) => string[]): T | undefined {
+  const keyword = input.toLowerCase();
+  const exact = items.find(item => names(item).some(name => name.toLowerCase() === keyword));
+  if (exact) return exact;
+  const partial = items.filter(item => names(item).some(name => name.toLowerCase().includes(keyword)));
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+const builtinCommands: SlashCommand[] = [
+  {
+    name: 'explain',
+    usage: '[文字]',
+    description: '解释页面上选中的文字，也可以直接在后面输入',
+    run: (input, context) => {
+      const text = input || context.selectedText;
+      if (!text) {
+        return { type: 'error', message: '请先在页面上选中要解释的文字，或者在 /explain 后面输入' };
+      }
+      const quote = text
+        .split('\n')
+        .map(line => `> ${line}`)
+        .join('\n');
+      return { type: 'send', text: `请解释这段内容：\n\n${quote}`, command: { name: 'explain', input: text } };
+    },
+  },
+  {
+    name: 'summarize',
+    description: '总结本节的知识点文案',
+    run: (_input, context) => requireSection(context) ?? { type: 'send', text: '请总结本节的知识点', command: { name: 'summarize' } },
+  },
+  {
+    name: 'quiz',
+    usage: '[题数]',
+    description: '根据本节内容出练习题，在对话里作答，不计入成绩',
+    run: (input, context) => {
+      const sectionError = requireSection(context);
+      if (sectionError) return sectionError;
+      if (!input) return { type: 'quiz' };
+      const count = Number(input);
+      return Number.isInteger(count) && count >= 1 && count <= 10
+        ? { type: 'quiz', count }
+        : { type: 'error', message: '题数请输入 1 到 10 之间的整数' };
+    },
+  },
+  {
+    name: 'timestamp',
+    description: '把视频当前的播放位置附加到下一条消息',
+    run: (_input, context) =>
+      context.videoTime === undefined ? { type: 'error', message: '当前页面没有视频' } : { type: 'attach-time', seconds: context.videoTime },
+  },
+  {
+    name: 'persona',
+    usage: '<名称>',
+    description: '切换人设',
+    complete: (input, context) => context.personas.map(persona => persona.name).filter(name => name.includes(input)),
+    run: (input, context) => {
+      if (!input) return { type: 'error', message: '请在 /persona 后面输入人设名称' };
+      const persona = pickByName(context.personas, input, persona => [persona.name]);
+      return persona ? { type: 'set-persona', personaId: persona.persona_id } : { type: 'error', message: `找不到人设“${input}”` };
+    },
+  },
+  {
+    name: 'model',
+    usage: '<模型>',
+    description: '切换模型',
+    complete: (input, context) =>
+      context.models
+        .filter(model => [model.id, model.displayName].some(name => name.toLowerCase().includes(input.toLowerCase())))
+        .map(model => model.id),
+    run: (input, context) => {
+      if (!input) return { type: 'error', message: '请在 /model 后面输入模型名称' };
+      const model = pickByName(context.models, input, model => [model.id, model.displayName]);
+      return model ? { type: 'set-model', modelId: model.id } : { type: 'error', message: `找不到模型“${input}”` };
+    },
+  },
+  {
+    name: 'help',
+    description: '查看所有命令',
+    run: () => ({ type: 'help' }),
+  },
+];
+
+builtinCommands.forEach(registerSlashCommand);
+
+/** 附加到消息上的视频时间的显示文字 */
+export function videoTimeLabel(seconds: number) {
+  return `视频 ${formatClock(seconds)}`;
+}
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
+import { fileServer, type ChatAttachment } from '@/server/training-server';
+
+/** 单个附件最大体积 */
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+/** 一条消息最多附带的文件数 */
+const MAX_ATTACHMENTS = 5;
+
+/** 文件选择框的 accept，目前只支持图片和 PDF */
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+
+/** 输入框里还没发送的附件，图片用本地地址预览，上传完成后才有 uploaded */
+export type PendingAttachment = {
+  id: string;
+  file: File;
+  previewUrl?: string;
+  uploaded?: ChatAttachment;
+};
+
+export const isImageType = (type: string) => type.startsWith('image/');
+
+function isAccepted(file: File) {
+  return isImageType(file.type) || file.type === 'application/pdf';
+}
+
+function revokePreview(item: PendingAttachment) {
+  if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+}
+
+/** 输入框的附件：选择、粘贴或拖入后立即上传，发送时只带上传成功的 */
+export function useComposerAttachments() {
+  const [items, setItems] = useState<PendingAttachment[]>([]);
+  const itemsRef = useRef(items);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // 卸载时释放本地预览地址
+  useEffect(() => () => itemsRef.current.forEach(revokePreview), []);
+
+  const remove = useCallback((id: string) => {
+    setItems(prev => {
+      prev.filter(item => item.id === id).forEach(revokePreview);
+      return prev.filter(item => item.id !== id);
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    setItems(prev => {
+      prev.forEach(revokePreview);
+      return [];
+    });
+  }, []);
+
+  const add = useCallback(
+    (files: File[]) => {
+      const accepted = files.filter(isAccepted);
+      if (accepted.length < files.length) {
+        alert('只支持图片和 PDF 文件');
+      }
+      if (accepted.some(file => file.size > MAX_ATTACHMENT_SIZE)) {
+        alert('单个文件不能超过 10MB');
+      }
+      const room = MAX_ATTACHMENTS - itemsRef.current.length;
+      const valid = accepted.filter(file => file.size <= MAX_ATTACHMENT_SIZE);
+      if (valid.length > room) {
+        alert(`一条消息最多附带 ${MAX_ATTACHMENTS} 个文件`);
+      }
+      const added = valid.slice(0, Math.max(room, 0)).map(file => ({
+        id: nanoid(),
+        file,
+        previewUrl: isImageType(file.type) ? URL.createObjectURL(file) : undefined,
+      }));
+      if (added.length === 0) return;
+      itemsRef.current = [...itemsRef.current, ...added];
+      setItems(prev => [...prev, ...added]);
+
+      added.forEach(async item => {
+        try {
+          const uploaded = (await fileServer.upload(item.file)).data;
+          setItems(prev =>
+            prev.map(pending =>
+              pending.id === item.id
+                ? { ...pending, uploaded: { url: uploaded.url, name: item.file.name, type: item.file.type, size: item.file.size } }
+                : pending
+            )
+          );
+        } catch (error) {
+          console.error('附件上传失败:', error);
+          alert(`${item.file.name} 上传失败`);
+          remove(item.id);
+        }
+      });
+    },
+    [remove]
+  );
+
+  return {
+    items,
+    add,
+    remove,
+    clear,
+    uploading: items.some(item => !item.uploaded),
+    attachments: items.flatMap(item => (item.uploaded ? [item.uploaded] : [])),
+  };
+}
@@ -0,0 +1,41 @@
+import { useState, type KeyboardEvent } from 'react';
+import { slashSuggestions, type SlashCommandContext, type SlashSuggestion } from './slash-commands';
+
+/** 输入框以 / 开头时的命令补全菜单，上下键选择，Tab 或回车补全，Esc 关闭 */
+export function useSlashCommandMenu(input: string, context: SlashCommandContext, onSelect: (value: string) => void) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissedInput, setDismissedInput] = useState<string | null>(null);
+  const suggestions = slashSuggestions(input, context);
+  const open = suggestions.length > 0 && dismissedInput !== input;
+  const index = Math.min(activeIndex, suggestions.length - 1);
+
+  const select = (suggestion: SlashSuggestion) => {
+    onSelect(suggestion.value);
+    setActiveIndex(0);
+  };
+
+  /** 菜单打开时处理按键，返回 true 表示已经处理，输入框不用再处理 */
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!open || event.nativeEvent.isComposing) return false;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index + step + suggestions.length) % suggestions.length);
+      return true;
+    }
+    // 已经是完整的命令时回车直接发送
+    if ((event.key === 'Tab' || (event.key === 'Enter' && !event.shiftKey)) && suggestions[index].value !== input) {
+      event.preventDefault();
+      select(suggestions[index]);
+      return true;
+    }
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      setDismissedInput(input);
+      return true;
+    }
+    return false;
+  };
+
+  return { open, suggestions, activeIndex: index, select, handleKeyDown };
+}
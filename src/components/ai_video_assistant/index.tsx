@@ -4,6 +4,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import type { KnowledgePoints } from '@/server/training-server';
+import { findActiveMarker, parseTimestamp } from '@/lib/subtitle';
 
 export type KnowledgePointsProps = {
   data?: KnowledgePoints;
@@ -11,6 +12,10 @@ export type KnowledgePointsProps = {
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
   triggerButton?: React.ReactNode;
+  /** 当前播放进度（秒），用于高亮正在播放的知识点 */
+  currentTime?: number;
+  /** 点击知识点时跳转到对应时间（秒） */
+  onSeek?: (seconds: number) => void;
 };
 
 // 辅助函数：将平铺的数据按 title 分组
@@ -25,14 +30,17 @@ const groupDataByTitle = (items: NonNullable<KnowledgePoints['key_points']>) =>
   return groups;
 };
 
-export const AIVideoSummary = ({ data, className, open, onOpenChange, triggerButton }: KnowledgePointsProps) => {
+export const AIVideoSummary = ({ data, className, open, onOpenChange, triggerButton, currentTime = 0, onSeek }: KnowledgePointsProps) => {
   // 如果没有传入 data，使用 Mock 数据，或者处理空状态
   const points = data?.key_points;
+  const [internalOpen, setInternalOpen] = React.useState(false);
 
   if (!points || points.length === 0) return null;
 
   const groupedPoints = groupDataByTitle(points);
-  const [internalOpen, setInternalOpen] = React.useState(false);
+  // 正在播放的知识点：开始时间不晚于当前进度的最后一个
+  const sortedPoints = [...points].sort((a, b) => parseTimestamp(a.time) - parseTimestamp(b.time));
+  const activePoint = sortedPoints[findActiveMarker(sortedPoints.map(item => parseTimestamp(item.time)), currentTime)];
 
   // 如果提供了 open 属性，则使用受控模式；否则使用内部状态
   const isOpen = open !== undefined ? open : internalOpen;
@@ -68,17 +76,21 @@ export const AIVideoSummary = ({ data, className, open, onOpenChange, triggerBut
 
               {/* 时间点列表 */}
               <div className='space-y-4'>
-                {items.map((item, idx) => (
-                  <div key={idx} className='flex gap-3 items-start group cursor-pointer'>
-                    {/* 时间戳胶囊 */}
-                    <div className='flex-shrink-0 border border-gray-200/80 text-gray-700 text-xs font-bold px-2.5 py-1 rounded-md min-w-[60px] text-center group-hover:bg-indigo-100 group-hover:text-indigo-600 transition-colors'>
-                      {item.time}
-                    </div>
+                {items.map((item, idx) => {
+                  const active = item === activePoint;
+                  return (
+                    <div key={idx} className='flex gap-3 items-start group cursor-pointer' onClick={() => onSeek?.(parseTimestamp(item.time))}>
+                      {/* 时间戳胶囊 */}
+                      <div className={cn('flex-shrink-0 border border-gray-200/80 text-gray-700 text-xs font-bold px-2.5 py-1 rounded-md min-w-[60px] text-center group-hover:bg-indigo-100 group-hover:text-indigo-600 transition-colors', active && 'bg-indigo-600 border-indigo-600 text-white')}>
+                        {active ? <PlayCircle className='inline w-3 h-3 mr-1 -mt-0.5' /> : null}
+                        {item.time}
+                      </div>
 
-                    {/* 描述文本 */}
-                    <p className='text-sm text-gray-600 leading-relaxed group-hover:text-gray-900 transition-colors'>{item.description}</p>
-                  </div>
-                ))}
+                      {/* 描述文本 */}
+                      <p className={cn('text-sm text-gray-600 leading-relaxed group-hover:text-gray-900 transition-colors', active && 'text-gray-900 font-medium')}>{item.description}</p>
+                    </div>
+                  );
+                })}
               </div>
             </div>
           ))}
@@ -1,4 +1,4 @@
-import { Calendar, Home, Inbox, Book, Search, Settings, CircleQuestionMark, VideoIcon, Gauge, User, UserPen } from "lucide-react"
+import { Calendar, Home, Inbox, Book, Search, Settings, CircleQuestionMark, VideoIcon, Gauge, User, LogOut, LayoutDashboard, Library, MessageSquareWarning, UserCog } from "lucide-react"
 
 import {
   Sidebar,
@@ -18,15 +18,53 @@ import {
 import { Progress } from "@/components/ui/progress"
 import { Card, CardAction, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { SiteHeader } from "./site-header"
-import { getLoginUser } from "@/containers/auth-middleware"
+import { getLoginUser, hasRole, logout } from "@/containers/auth-middleware"
+import type { UserRole } from "@/server/training-server"
 import { ScrollArea, ScrollBar } from "../ui/scroll-area"
+interface MenuItem {
+  title: string;
+  url: string;
+  icon: React.ComponentType;
+  /** 只对这些角色展示，不填则所有人可见 */
+  roles?: UserRole[];
+  onClick?: (event: React.MouseEvent) => void;
+}
+
 // Menu items.
-const topItems = [
+const topItems: MenuItem[] = [
   {
     title: "课程广场",
     url: "#/app/courseList",
     icon: Book,
   },
+  {
+    title: "对话搜索",
+    url: "#/app/search",
+    icon: Search,
+  },
+  {
+    title: "我的人设",
+    url: "#/app/personas",
+    icon: UserCog,
+  },
+  {
+    title: "内容管理",
+    url: "#/admin",
+    icon: LayoutDashboard,
+    roles: ["instructor", "admin"],
+  },
+  {
+    title: "课程管理",
+    url: "#/admin/courses",
+    icon: Library,
+    roles: ["instructor", "admin"],
+  },
+  {
+    title: "回答反馈",
+    url: "#/admin/feedback",
+    icon: MessageSquareWarning,
+    roles: ["instructor", "admin"],
+  },
   // {
   //   title: "学习情况总揽",
   //   url: "#",
@@ -45,16 +83,22 @@ const topItems = [
 ]
 
 // Menu items.
-const bottomItems = [
+const bottomItems: MenuItem[] = [
   // {
   //   title: "设置",
   //   url: "#",
   //   icon: Settings,
   // },
   {
-    title: "切换账户",
-    url: "#/userList",
-    icon: UserPen,
+    title: "退出登录",
+    url: "#/login",
+    icon: LogOut,
+    /** 先注销令牌，再跳转到登录页 */
+    onClick: async (event: React.MouseEvent) => {
+      event.preventDefault();
+      await logout();
+      window.location.hash = '#/login';
+    },
   },
   // {
   //   title: "获得帮助",
@@ -65,6 +109,7 @@ const bottomItems = [
 
 export function AppLeftSidebar({children}: {children?: React.ReactNode}) {
   const user = getLoginUser();
+  const visible = (item: MenuItem) => !item.roles || hasRole(user, ...item.roles);
   return (
     <SidebarProvider 
       defaultOpen={false}
@@ -95,7 +140,7 @@ export function AppLeftSidebar({children}: {children?: React.ReactNode}) {
           <SidebarGroup>
             <SidebarGroupContent>
               <SidebarMenu>
-                {topItems.map((item) => (
+                {topItems.filter(visible).map((item) => (
                   <SidebarMenuItem key={item.title}>
                     <SidebarMenuButton asChild>
                       <a href={item.url}>
@@ -111,10 +156,10 @@ export function AppLeftSidebar({children}: {children?: React.ReactNode}) {
         </SidebarContent>
         <SidebarFooter>
           <SidebarMenu>
-            {bottomItems.map((item) => (
+            {bottomItems.filter(visible).map((item) => (
               <SidebarMenuItem key={item.title}>
                 <SidebarMenuButton asChild>
-                  <a href={item.url}>
+                  <a href={item.url} onClick={item.onClick}>
                     <item.icon />
                     <span>{item.title}</span>
                   </a>
@@ -0,0 +1,138 @@
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { AiPersona, CourseResponse } from "@/server/training-server"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+
+/** 下拉框里表示“不指定人设”的值，Select 不允许空字符串 */
+const NO_PERSONA = "none";
+
+const courseFormSchema = z.object({
+  name: z.string().trim().min(1, "请输入课程名称").max(100, "课程名称最多 100 个字符"),
+  description: z.string().trim().max(500, "简介最多 500 个字符"),
+  icon_url: z.union([z.literal(""), z.url("请输入有效的图片地址")]),
+  default_ai_persona_id: z.string(),
+});
+
+type CourseFormValues = z.infer<typeof courseFormSchema>;
+
+/** 把表单的值转换成接口需要的字段，空字符串表示清空 */
+function toCoursePayload(values: CourseFormValues): Partial<CourseResponse> {
+  return {
+    name: values.name,
+    description: values.description,
+    icon_url: values.icon_url,
+    default_ai_persona_id: values.default_ai_persona_id === NO_PERSONA ? "" : values.default_ai_persona_id,
+  };
+}
+
+/** 新建和编辑课程基本信息的表单 */
+export function CourseForm(props: {
+  course?: CourseResponse;
+  personas?: AiPersona[];
+  submitText?: string;
+  /** 已经转换成接口字段的课程信息 */
+  onSubmit: (course: Partial<CourseResponse>) => Promise<void> | void;
+}) {
+  const form = useForm<CourseFormValues>({
+    resolver: zodResolver(courseFormSchema),
+    values: {
+      name: props.course?.name ?? "",
+      description: props.course?.description ?? "",
+      icon_url: props.course?.icon_url ?? "",
+      default_ai_persona_id: props.course?.default_ai_persona_id || NO_PERSONA,
+    },
+  });
+  return (
+    <Form {...form}>
+      <form className="flex flex-col gap-4" onSubmit={form.handleSubmit((values) => props.onSubmit(toCoursePayload(values)))}>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>课程名称</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>课程简介</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="icon_url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>封面图片地址</FormLabel>
+              <FormControl>
+                <Input placeholder="https://" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="default_ai_persona_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>默认 AI 人设</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="不指定" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_PERSONA}>不指定</SelectItem>
+                  {props.personas?.map((persona) => (
+                    <SelectItem key={persona.persona_id} value={persona.persona_id}>
+                      {persona.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>学员进入本课程时 AI 助手默认使用的人设</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="self-end" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "保存中..." : props.submitText ?? "保存"}
+        </Button>
+      </form>
+    </Form>
+  )
+}
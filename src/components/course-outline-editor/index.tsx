@@ -0,0 +1,291 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { SortableList } from "@/components/sortable-list"
+import { cn } from "@/lib/utils"
+import {
+  chapterServer,
+  sectionsServer,
+  type ChapterResponse,
+  type SectionResponse,
+} from "@/server/training-server"
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react"
+import { useEffect, useState } from "react"
+
+/** 把排序后的列表按下标写回 order 字段，只更新顺序真正变化的条目 */
+async function saveOrder<T>(
+  items: T[],
+  getOrder: (item: T) => number,
+  update: (item: T, order: number) => Promise<unknown>,
+) {
+  await Promise.all(
+    items.map((item, index) => (getOrder(item) === index + 1 ? null : update(item, index + 1))),
+  );
+}
+
+/** 行内编辑标题，回车保存，Esc 取消 */
+function InlineTitle(props: {
+  value?: string;
+  placeholder?: string;
+  /** 新建时直接进入编辑状态 */
+  editing?: boolean;
+  /** 返回是否保存成功，失败时保持编辑状态，方便改了再试 */
+  onSave: (title: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [editing, setEditing] = useState(props.editing ?? false);
+  const [title, setTitle] = useState(props.value ?? "");
+  const [saving, setSaving] = useState(false);
+
+  function cancel() {
+    setTitle(props.value ?? "");
+    setEditing(false);
+    props.onCancel?.();
+  }
+
+  async function save() {
+    const value = title.trim();
+    if (!value) {
+      return;
+    }
+    setSaving(true);
+    try {
+      if (await props.onSave(value)) {
+        setEditing(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!editing) {
+    return (
+      <span className="flex min-w-0 items-center gap-1">
+        <span className="truncate">{props.value}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="size-7 shrink-0"
+          title="重命名"
+          onClick={(event) => {
+            event.stopPropagation();
+            setEditing(true);
+          }}
+        >
+          <Pencil className="size-3.5" />
+        </Button>
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1" onClick={(event) => event.stopPropagation()}>
+      <Input
+        autoFocus
+        className="h-8"
+        value={title}
+        placeholder={props.placeholder}
+        disabled={saving}
+        onChange={(event) => setTitle(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            event.preventDefault();
+            save();
+          } else if (event.key === "Escape") {
+            cancel();
+          }
+        }}
+      />
+      <Button type="button" variant="ghost" size="icon" className="size-7" disabled={saving} onClick={save}>
+        <Check className="size-3.5" />
+      </Button>
+      <Button type="button" variant="ghost" size="icon" className="size-7" disabled={saving} onClick={cancel}>
+        <X className="size-3.5" />
+      </Button>
+    </span>
+  );
+}
+
+/**
+ * 课程大纲编辑器
+ * 章节和小节都可以拖拽排序，排序结果立即写回 chapter_order / section_order
+ */
+export function CourseOutlineEditor(props: {
+  courseId: string;
+  chapters: ChapterResponse[];
+  selectedSectionId?: string;
+  onSelectSection: (section: SectionResponse) => void;
+  /** 大纲被修改后调用，由调用方刷新数据 */
+  onChanged: () => void;
+}) {
+  // 拖拽后先在本地展示新顺序，等接口保存完再用后端数据覆盖
+  const [chapters, setChapters] = useState(props.chapters);
+  const [addingChapter, setAddingChapter] = useState(false);
+  const [addingSectionTo, setAddingSectionTo] = useState<string>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setChapters(props.chapters);
+  }, [props.chapters]);
+
+  /** 执行一次修改，失败时提示并返回 false */
+  async function run(task: () => Promise<unknown>, failedMessage: string) {
+    setSaving(true);
+    try {
+      await task();
+      return true;
+    } catch (error) {
+      console.error(error);
+      alert(failedMessage);
+      return false;
+    } finally {
+      setSaving(false);
+      props.onChanged();
+    }
+  }
+
+  function reorderChapters(next: ChapterResponse[]) {
+    setChapters(next);
+    run(
+      () => saveOrder(next, (chapter) => chapter.chapter_order, (chapter, chapter_order) =>
+        chapterServer.update({ chapter_id: chapter.chapter_id, chapter_order })),
+      "章节排序保存失败",
+    );
+  }
+
+  function reorderSections(chapterId: string, next: SectionResponse[]) {
+    setChapters(chapters.map((chapter) => (chapter.chapter_id === chapterId ? { ...chapter, sections: next } : chapter)));
+    run(
+      () => saveOrder(next, (section) => section.section_order, (section, section_order) =>
+        sectionsServer.update({ section_id: section.section_id, section_order })),
+      "小节排序保存失败",
+    );
+  }
+
+  async function addChapter(title: string) {
+    const ok = await run(
+      () => chapterServer.add({ course_id: props.courseId, title, chapter_order: chapters.length + 1 }),
+      "新建章节失败",
+    );
+    if (ok) {
+      setAddingChapter(false);
+    }
+    return ok;
+  }
+
+  async function addSection(chapter: ChapterResponse, title: string) {
+    const ok = await run(
+      () => sectionsServer.add({
+        chapter_id: chapter.chapter_id,
+        title,
+        section_order: (chapter.sections?.length ?? 0) + 1,
+      }),
+      "新建小节失败",
+    );
+    if (ok) {
+      setAddingSectionTo(undefined);
+    }
+    return ok;
+  }
+
+  function deleteChapter(chapter: ChapterResponse) {
+    if (chapter.sections?.length) {
+      alert("请先删除该章节下的所有小节");
+      return;
+    }
+    if (confirm(`确定删除章节「${chapter.title}」吗？`)) {
+      run(() => chapterServer.delete({ chapter_id: chapter.chapter_id }), "删除章节失败");
+    }
+  }
+
+  function deleteSection(section: SectionResponse) {
+    if (confirm(`确定删除小节「${section.title}」吗？`)) {
+      run(() => sectionsServer.delete({ section_id: section.section_id }), "删除小节失败");
+    }
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-2", saving && "pointer-events-none opacity-70")}>
+      <SortableList
+        items={chapters}
+        getKey={(chapter) => chapter.chapter_id}
+        onReorder={reorderChapters}
+      >
+        {(chapter, chapterIndex) => (
+          <div className="flex flex-col gap-1 rounded-md border p-2">
+            <div className="flex items-center justify-between gap-2 font-medium">
+              <span className="shrink-0 text-muted-foreground">第{chapterIndex + 1}章</span>
+              <div className="min-w-0 flex-1">
+                <InlineTitle
+                  value={chapter.title}
+                  onSave={(title) => run(() => chapterServer.update({ chapter_id: chapter.chapter_id, title }), "章节重命名失败")}
+                />
+              </div>
+              <Button type="button" variant="ghost" size="icon" className="size-7" title="删除章节" onClick={() => deleteChapter(chapter)}>
+                <Trash2 className="size-3.5" />
+              </Button>
+            </div>
+            <SortableList
+              items={chapter.sections ?? []}
+              getKey={(section) => section.section_id}
+              onReorder={(next) => reorderSections(chapter.chapter_id, next)}
+            >
+              {(section) => (
+                <div
+                  className={cn(
+                    "flex cursor-pointer items-center justify-between gap-2 rounded-md px-2 py-1 text-sm hover:bg-muted",
+                    props.selectedSectionId === section.section_id && "bg-muted font-medium",
+                  )}
+                  onClick={() => props.onSelectSection(section)}
+                >
+                  <div className="min-w-0 flex-1">
+                    <InlineTitle
+                      value={section.title}
+                      onSave={(title) => run(() => sectionsServer.update({ section_id: section.section_id, title }), "小节重命名失败")}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    title="删除小节"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      deleteSection(section);
+                    }}
+                  >
+                    <Trash2 className="size-3.5" />
+                  </Button>
+                </div>
+              )}
+            </SortableList>
+            {addingSectionTo === chapter.chapter_id ? (
+              <InlineTitle
+                editing
+                placeholder="小节标题"
+                onSave={(title) => addSection(chapter, title)}
+                onCancel={() => setAddingSectionTo(undefined)}
+              />
+            ) : (
+              <Button type="button" variant="ghost" size="sm" className="self-start" onClick={() => setAddingSectionTo(chapter.chapter_id)}>
+                <Plus />新建小节
+              </Button>
+            )}
+          </div>
+        )}
+      </SortableList>
+      {addingChapter ? (
+        <InlineTitle
+          editing
+          placeholder="章节标题"
+          onSave={addChapter}
+          onCancel={() => setAddingChapter(false)}
+        />
+      ) : (
+        <Button type="button" variant="outline" onClick={() => setAddingChapter(true)}>
+          <Plus />新建章节
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 import Selection from "./selection";
 import ShortAnswer from "./short-answer";
 import { useAutoCache } from "@/containers/auto-cache";
-import { exerciseResultServer, exerciseServer, type ExrciseResultCompose } from "@/server/training-server";
+import { exerciseResultServer, exerciseResultsTag, exerciseServer, exercisesTag, type ExrciseResultCompose } from "@/server/training-server";
 import { useParams } from "react-router";
 import { Button } from "@/components/ui/button";
 import { useCallback, useState, useEffect, useContext } from "react";
@@ -16,6 +16,7 @@ import { isArray } from "lodash";
 import { getLoginUser } from "@/containers/auth-middleware";
 import { ExamResultDialog } from "../exam-result-dialog";
 import { ExaminationContext } from "@/contexts/examination-context";
+import { emitAppEvent } from "@/lib/app-events";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -48,17 +49,17 @@ interface ExaminationProps {
 export function Examination({ onPass, onFail, onSubmittedExam, stage, }: ExaminationProps) {
   const params = useParams();
   const [explanation, setExplanation] = useState(false);
-  const [trigger, setTrigger] = useState(1);
   const [submitting, setSubmitting] = useState(false);
   const [resultDialogShow, setResultDialogShow] = useState(false);
   const [showIncompleteDialog, setShowIncompleteDialog] = useState(false);
   const [incompleteCount, setIncompleteCount] = useState(0);
   const { setIsExamination } = useContext(ExaminationContext);
 
-  const { data } = useAutoCache(exerciseServer.getExercisesWithOptionsBySection, [{ section_id: params.sectionId }]);
+  const { data } = useAutoCache(exerciseServer.getExercisesWithOptionsBySection, [{ section_id: params.sectionId }], undefined, undefined, { tags: [exercisesTag(params.sectionId)] });
   const { data: exerciseResult } = useAutoCache(
     exerciseResultServer.getExerciseResults,
-    [{ user_id: getLoginUser()?.user_id, section_id: params.sectionId }], undefined, trigger
+    [{ user_id: getLoginUser()?.user_id, section_id: params.sectionId }], undefined, undefined,
+    { tags: [exerciseResultsTag(params.sectionId)] }
   );
 
   useEffect(() => {
@@ -122,9 +123,15 @@ export function Examination({ onPass, onFail, onSubmittedExam, stage, }: Examina
     }
     try {
       setSubmitting(true);
-      await exerciseResultServer.saveExerciseResults(formData);
-      setTrigger(trigger + 1);
+      // 保存后 exerciseResultsTag 对应的缓存会自动失效并重新加载
+      const result = await exerciseResultServer.saveExerciseResults(formData);
       setResultDialogShow(true);
+      emitAppEvent("exam:submitted", {
+        sectionId: params.sectionId ?? "",
+        pass: result.data.pass,
+        score: result.data.score,
+        userScore: result.data.user_score,
+      });
     } finally {
 
       setSubmitting(false);
@@ -153,7 +160,7 @@ export function Examination({ onPass, onFail, onSubmittedExam, stage, }: Examina
     }
 
     await submitForm(values);
-  }, [params.sectionId, setTrigger, data]);
+  }, [params.sectionId, data]);
 
 
   const goCompare = () => {
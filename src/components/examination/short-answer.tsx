@@ -20,6 +20,7 @@ type ShortAnswerProps = {
   maxLength?: number;
   disabled?: boolean;
   explanation?: boolean;
+  compact?: boolean; // 简洁模式，宽度跟随容器，用在对话侧栏里
   // 提交时返回答案
   onSubmit?: (answer: string) => void;
   // 每次变更时返回答案
@@ -47,6 +48,7 @@ export default function ShortAnswer({
   user_score = 0,
   explanation = false,
   disabled = false,
+  compact = false,
   onSubmit,
   onChange,
 }: ShortAnswerProps) {
@@ -88,7 +90,7 @@ export default function ShortAnswer({
   const [aiError, setAiError] = useState<string | null>(null);
 
   return (
-    <div style={{ width: 720 }}>
+    <div style={{ width: compact ? "100%" : 720 }}>
       <label htmlFor={textareaId} style={{ display: "block", marginBottom: 8}} className="font-semibold">
         <div className="flex w-full items-start justify-between">
           <div><Response>{question}</Response></div>
@@ -107,7 +109,7 @@ export default function ShortAnswer({
           placeholder={placeholder}
           disabled={disabled}
           aria-invalid={!!error}
-          rows={12}
+          rows={compact ? 4 : 12}
           style={{
             width: "100%",
             resize: "vertical",
@@ -0,0 +1,323 @@
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ImageUpload } from "@/components/image-upload"
+import Selection from "@/components/examination/selection"
+import ShortAnswer from "@/components/examination/short-answer"
+import type { ExerciseResponse } from "@/server/training-server"
+import { Plus, Trash2 } from "lucide-react"
+import { z } from "zod"
+import { useFieldArray, useForm, useWatch } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useState } from "react"
+
+const selectionNames = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P'];
+
+const exerciseFormSchema = z
+  .object({
+    question: z.string().trim().min(1, "请输入题干"),
+    /** '0' 单选，'1' 多选，'2' 简答 */
+    type_status: z.enum(["0", "1", "2"]),
+    score: z.number({ error: "请输入分值" }).positive("分值必须大于 0"),
+    answer: z.string().trim(),
+    image: z.string(),
+    options: z.array(
+      z.object({
+        /** 已保存的选项才有 id */
+        option_id: z.string().optional(),
+        option_text: z.string().trim().min(1, "请输入选项内容"),
+        is_correct: z.boolean(),
+        image: z.string(),
+      }),
+    ),
+  })
+  .superRefine((values, ctx) => {
+    if (values.type_status === "2") {
+      if (!values.answer) {
+        ctx.addIssue({ code: "custom", path: ["answer"], message: "简答题需要填写参考答案，AI 会据此批改" });
+      }
+      return;
+    }
+    if (values.options.length < 2) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "选择题至少需要 2 个选项" });
+      return;
+    }
+    if (values.options.length > selectionNames.length) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: `选项最多 ${selectionNames.length} 个` });
+    }
+    const correctCount = values.options.filter((option) => option.is_correct).length;
+    if (values.type_status === "0" && correctCount !== 1) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "单选题必须且只能有 1 个正确选项" });
+    } else if (values.type_status === "1" && correctCount < 1) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "多选题至少需要 1 个正确选项" });
+    }
+  });
+
+export type ExerciseFormValues = z.infer<typeof exerciseFormSchema>;
+
+const typeNames = { "0": "单选题", "1": "多选题", "2": "简答题" };
+
+function toFormValues(exercise?: ExerciseResponse): ExerciseFormValues {
+  const type_status = exercise?.type_status === "1" || exercise?.type_status === "2" ? exercise.type_status : "0";
+  return {
+    question: exercise?.question ?? "",
+    type_status,
+    score: exercise?.score ?? 10,
+    answer: exercise?.answer ?? "",
+    image: exercise?.image ?? "",
+    options: exercise?.options?.map((option) => ({
+      option_id: option.option_id,
+      option_text: option.option_text,
+      is_correct: option.is_correct,
+      image: option.image ?? "",
+    })) ?? [],
+  };
+}
+
+/** 按学员端 Examination 的渲染方式预览题目 */
+function ExercisePreview(props: { values: ExerciseFormValues }) {
+  const [explanation, setExplanation] = useState(false);
+  const { values } = props;
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>学员看到的效果</span>
+        <label className="flex items-center gap-2">
+          <Checkbox checked={explanation} onCheckedChange={(checked) => setExplanation(checked === true)} />
+          显示解析
+        </label>
+      </div>
+      <div className="rounded-xl border border-gray-200 p-4">
+        {values.type_status === "2" ? (
+          <ShortAnswer
+            question={values.question || "（题干）"}
+            answerKey={values.answer}
+            score={values.score}
+            image={values.image || undefined}
+            explanation={explanation}
+          />
+        ) : (
+          <Selection
+            question={values.question || "（题干）"}
+            answerKey={values.answer}
+            score={values.score}
+            image={values.image || undefined}
+            options={values.options.map((option, index) => ({
+              id: option.option_id ?? `new-${index}`,
+              label: option.option_text,
+              value: option.option_id ?? `new-${index}`,
+              image: option.image || undefined,
+              is_correct: option.is_correct,
+            }))}
+            mode={values.type_status === "0" ? "single" : "multiple"}
+            explanation={explanation}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** 编辑一道测验题及其选项，右侧实时预览 */
+export function ExerciseForm(props: {
+  exercise?: ExerciseResponse;
+  onSubmit: (values: ExerciseFormValues) => Promise<void> | void;
+  onCancel?: () => void;
+}) {
+  const form = useForm<ExerciseFormValues>({
+    resolver: zodResolver(exerciseFormSchema),
+    values: toFormValues(props.exercise),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "options" });
+  const values = useWatch({ control: form.control }) as ExerciseFormValues;
+  const isChoice = values.type_status !== "2";
+  const optionsError = form.formState.errors.options?.root?.message ?? form.formState.errors.options?.message;
+
+  /** 单选题勾选一个正确选项时取消其他选项 */
+  function setCorrect(index: number, checked: boolean) {
+    if (values.type_status === "0" && checked) {
+      fields.forEach((_, i) => form.setValue(`options.${i}.is_correct`, i === index, { shouldValidate: form.formState.isSubmitted }));
+      return;
+    }
+    form.setValue(`options.${index}.is_correct`, checked, { shouldValidate: form.formState.isSubmitted });
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-6">
+      <Form {...form}>
+        <form className="flex flex-col gap-4" onSubmit={form.handleSubmit(props.onSubmit)}>
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="type_status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>题型</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(typeNames).map(([value, name]) => (
+                        <SelectItem key={value} value={value}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="score"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>分值</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      {...field}
+                      value={Number.isNaN(field.value) ? "" : field.value}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="question"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>题干</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} {...field} />
+                </FormControl>
+                <FormDescription>支持 markdown</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="image"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>题目配图</FormLabel>
+                <ImageUpload value={field.value} onChange={field.onChange} />
+              </FormItem>
+            )}
+          />
+          {isChoice && (
+            <FormField
+              control={form.control}
+              name="options"
+              render={() => (
+                <FormItem>
+                  <FormLabel>选项</FormLabel>
+                  <div className="flex flex-col gap-2">
+                    {fields.map((item, index) => (
+                      <div key={item.id} className="flex flex-col gap-2 rounded-md border p-2">
+                        <div className="flex items-center gap-2">
+                          <span className="w-4 font-medium">{selectionNames[index]}</span>
+                          <FormField
+                            control={form.control}
+                            name={`options.${index}.option_text`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormControl>
+                                  <Input placeholder="选项内容" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <label className="flex shrink-0 items-center gap-1 text-sm">
+                            <Checkbox
+                              checked={values.options?.[index]?.is_correct ?? false}
+                              onCheckedChange={(checked) => setCorrect(index, checked === true)}
+                            />
+                            正确
+                          </label>
+                          <Button type="button" variant="ghost" size="icon" className="size-8" title="删除选项" onClick={() => remove(index)}>
+                            <Trash2 />
+                          </Button>
+                        </div>
+                        <FormField
+                          control={form.control}
+                          name={`options.${index}.image`}
+                          render={({ field }) => (
+                            <ImageUpload className="pl-6" value={field.value} onChange={field.onChange} />
+                          )}
+                        />
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="self-start"
+                      disabled={fields.length >= selectionNames.length}
+                      onClick={() => append({ option_text: "", is_correct: false, image: "" })}
+                    >
+                      <Plus />添加选项
+                    </Button>
+                  </div>
+                  {/* 整个选项数组的校验错误挂在 root 上，FormMessage 读不到 */}
+                  {optionsError && <p className="text-destructive text-sm">{optionsError}</p>}
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="answer"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{isChoice ? "答案解析" : "参考答案"}</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} {...field} />
+                </FormControl>
+                <FormDescription>
+                  {isChoice ? "交卷后展示给学员" : "AI 批改简答题时的评分依据，交卷后展示给学员"}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex justify-end gap-2">
+            {props.onCancel && (
+              <Button type="button" variant="outline" onClick={props.onCancel}>取消</Button>
+            )}
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? "保存中..." : "保存题目"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+      <ExercisePreview values={values} />
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { ImagePlus, LoaderCircle, X } from "lucide-react";
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { fileServer } from "@/server/training-server";
+import { cn } from "@/lib/utils";
+
+/** 单张图片最大体积 */
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+/** 上传并预览一张图片，value 是上传后得到的图片地址 */
+export function ImageUpload(props: {
+  value?: string;
+  onChange: (url: string) => void;
+  className?: string;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  async function upload(file: File) {
+    if (file.size > MAX_IMAGE_SIZE) {
+      alert("图片不能超过 5MB");
+      return;
+    }
+    setUploading(true);
+    try {
+      const uploaded = (await fileServer.upload(file)).data;
+      props.onChange(uploaded.url);
+    } catch (e) {
+      console.error(e);
+      alert("图片上传失败");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <div className={cn("flex items-center gap-2", props.className)}>
+      {props.value ? (
+        <div className="relative">
+          <img src={props.value} alt="" className="size-16 rounded-md border object-cover" />
+          <Button
+            type="button"
+            variant="secondary"
+            size="icon"
+            className="absolute -top-2 -right-2 size-5 rounded-full"
+            title="移除图片"
+            onClick={() => props.onChange("")}
+          >
+            <X className="size-3" />
+          </Button>
+        </div>
+      ) : null}
+      <Button type="button" variant="outline" size="sm" disabled={uploading} onClick={() => inputRef.current?.click()}>
+        {uploading ? <LoaderCircle className="animate-spin" /> : <ImagePlus />}
+        {props.value ? "更换图片" : "上传图片"}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          // 清空后才能重复选择同一个文件
+          event.target.value = "";
+          if (file) {
+            upload(file);
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Clock, Play, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { SortableList } from "@/components/sortable-list";
+import { formatClock, parseTimestamp } from "@/lib/subtitle";
+import type { KnowledgePoints } from "@/server/training-server";
+
+export type KeyPoint = NonNullable<KnowledgePoints["key_points"]>[number];
+
+interface KeyPointGroup {
+  title: string;
+  points: KeyPoint[];
+}
+
+/** 按 title 分组，保持各组第一次出现的顺序，和 AIVideoSummary 的展示一致 */
+function groupByTitle(points: KeyPoint[]): KeyPointGroup[] {
+  const groups: KeyPointGroup[] = [];
+  for (const point of points) {
+    let group = groups.find((item) => item.title === point.title);
+    if (!group) {
+      group = { title: point.title, points: [] };
+      groups.push(group);
+    }
+    group.points.push(point);
+  }
+  return groups;
+}
+
+function flatten(groups: KeyPointGroup[]): KeyPoint[] {
+  return groups.flatMap((group) => group.points.map((point) => ({ ...point, title: group.title })));
+}
+
+const CLOCK_PATTERN = /^(\d+:)?\d{1,2}:\d{2}$/;
+
+/**
+ * 知识点编辑器
+ * 知识点按标题分组，组和组内的知识点都可以拖拽排序；时间取自播放器当前进度
+ */
+export function KnowledgePointEditor(props: {
+  points: KeyPoint[];
+  onChange: (points: KeyPoint[]) => void;
+  /** 读取播放器当前时间（秒），会先暂停视频 */
+  captureTime: () => number;
+  onSeek: (seconds: number) => void;
+}) {
+  const groups = groupByTitle(props.points);
+  const [newTitle, setNewTitle] = useState("");
+
+  function updateGroups(next: KeyPointGroup[]) {
+    props.onChange(flatten(next));
+  }
+
+  function updateGroup(index: number, patch: Partial<KeyPointGroup>) {
+    updateGroups(groups.map((group, i) => (i === index ? { ...group, ...patch } : group)));
+  }
+
+  function updatePoint(groupIndex: number, pointIndex: number, patch: Partial<KeyPoint>) {
+    const group = groups[groupIndex];
+    updateGroup(groupIndex, {
+      points: group.points.map((point, i) => (i === pointIndex ? { ...point, ...patch } : point)),
+    });
+  }
+
+  /** 在组内按时间插入一个知识点 */
+  function capture(groupIndex: number) {
+    const seconds = props.captureTime();
+    const group = groups[groupIndex];
+    const point = { title: group.title, description: "", time: formatClock(seconds) };
+    const points = [...group.points, point].sort((a, b) => parseTimestamp(a.time) - parseTimestamp(b.time));
+    updateGroup(groupIndex, { points });
+  }
+
+  function addGroup() {
+    const title = newTitle.trim();
+    if (!title) {
+      return;
+    }
+    if (groups.some((group) => group.title === title)) {
+      alert("已经有同名的分组");
+      return;
+    }
+    const seconds = props.captureTime();
+    updateGroups([...groups, { title, points: [{ title, description: "", time: formatClock(seconds) }] }]);
+    setNewTitle("");
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <SortableList items={groups} getKey={(group) => group.title} onReorder={updateGroups}>
+        {(group, groupIndex) => (
+          <div className="flex flex-col gap-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                className="h-8 font-semibold"
+                defaultValue={group.title}
+                // 失焦时再改名，避免输入过程中和其他分组重名被合并
+                onBlur={(event) => {
+                  const title = event.target.value.trim();
+                  if (!title || title === group.title) {
+                    event.target.value = group.title;
+                    return;
+                  }
+                  if (groups.some((item) => item.title === title)) {
+                    alert("已经有同名的分组");
+                    event.target.value = group.title;
+                    return;
+                  }
+                  updateGroup(groupIndex, { title });
+                }}
+              />
+              <Button type="button" variant="outline" size="sm" onClick={() => capture(groupIndex)}>
+                <Clock />记录当前时间
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="size-8"
+                title="删除分组"
+                onClick={() => confirm(`确定删除「${group.title}」下的 ${group.points.length} 个知识点吗？`) && updateGroups(groups.filter((_, i) => i !== groupIndex))}
+              >
+                <Trash2 />
+              </Button>
+            </div>
+            <SortableList
+              items={group.points}
+              getKey={(point) => `${point.time}-${group.points.indexOf(point)}`}
+              onReorder={(points) => updateGroup(groupIndex, { points })}
+            >
+              {(point, pointIndex) => (
+                <div className="flex items-start gap-2">
+                  <Input
+                    className="h-8 w-[84px] font-mono text-xs"
+                    defaultValue={point.time}
+                    key={point.time}
+                    onBlur={(event) => {
+                      const time = event.target.value.trim();
+                      if (CLOCK_PATTERN.test(time)) {
+                        updatePoint(groupIndex, pointIndex, { time });
+                      } else {
+                        event.target.value = point.time;
+                      }
+                    }}
+                  />
+                  <Button type="button" variant="ghost" size="icon" className="size-8" title="跳转到这里" onClick={() => props.onSeek(parseTimestamp(point.time))}>
+                    <Play />
+                  </Button>
+                  <Textarea
+                    className="min-h-8 flex-1"
+                    placeholder="这一段讲了什么"
+                    value={point.description}
+                    onChange={(event) => updatePoint(groupIndex, pointIndex, { description: event.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    title="删除知识点"
+                    onClick={() => updateGroup(groupIndex, { points: group.points.filter((_, i) => i !== pointIndex) })}
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              )}
+            </SortableList>
+          </div>
+        )}
+      </SortableList>
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8"
+          placeholder="新分组标题，例如：安全操作规范"
+          value={newTitle}
+          onChange={(event) => setNewTitle(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              addGroup();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" disabled={!newTitle.trim()} onClick={addGroup}>
+          <Plus />在当前时间新建分组
+        </Button>
+      </div>
+    </div>
+  );
+}
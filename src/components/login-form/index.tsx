@@ -2,60 +2,179 @@ import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import {
   Field,
-  FieldDescription,
   FieldGroup,
-  FieldLabel,
-  FieldSeparator,
 } from "@/components/ui/field"
-
 import {
-  Select,
-  SelectContent,
-  SelectGroup,
-  SelectItem,
-  SelectLabel,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select"
-import { type UserResponse } from "@/server/training-server"
-
-export function LoginForm(props: {userList?: UserResponse[], onSubmit?: (user_id: string) => void }) {
-  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const value = Object.fromEntries(formData.entries());
-    props.onSubmit&&props.onSubmit(value.user_id as string);
-  }
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useEffect, useState } from "react"
+
+const passwordSchema = z.object({
+  username: z.string().trim().min(1, "请输入账户名"),
+  password: z.string().min(6, "密码至少 6 位"),
+});
+
+export type PasswordLoginValues = z.infer<typeof passwordSchema>;
+
+/** 账号密码登录表单 */
+export function LoginForm(props: { onSubmit?: (values: PasswordLoginValues) => Promise<void> | void }) {
+  const form = useForm<PasswordLoginValues>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: { username: "", password: "" },
+  });
+  const onSubmit = async (values: PasswordLoginValues) => {
+    await props.onSubmit?.(values);
+  };
+  return (
+    <Form {...form}>
+      <form className={cn("flex flex-col gap-6")} onSubmit={form.handleSubmit(onSubmit)} >
+        <FieldGroup>
+          <div className="flex flex-col items-center gap-1 text-center">
+            <h1 className="text-2xl font-bold">登录账户</h1>
+            <p className="text-muted-foreground text-sm text-balance">
+              登录后从上次进度继续学习
+            </p>
+          </div>
+          <FormField
+            control={form.control}
+            name="username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>账户名</FormLabel>
+                <FormControl>
+                  <Input autoComplete="username" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>密码</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="current-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Field>
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? "登录中..." : "登录"}
+            </Button>
+          </Field>
+        </FieldGroup>
+      </form>
+    </Form>
+  )
+}
+
+const codeSchema = z.object({
+  phone: z.string().trim().regex(/^1\d{10}$/, "请输入 11 位手机号"),
+  code: z.string().trim().regex(/^\d{4,8}$/, "请输入短信验证码"),
+});
+
+export type CodeLoginValues = z.infer<typeof codeSchema>;
+
+/** 再次发送验证码前需要等待的秒数 */
+const RESEND_SECONDS = 60;
+
+/** 手机验证码登录表单 */
+export function CodeLoginForm(props: {
+  onSendCode?: (phone: string) => Promise<void>;
+  onSubmit?: (values: CodeLoginValues) => Promise<void> | void;
+}) {
+  const [countdown, setCountdown] = useState(0);
+  const form = useForm<CodeLoginValues>({
+    resolver: zodResolver(codeSchema),
+    defaultValues: { phone: "", code: "" },
+  });
+
+  useEffect(() => {
+    if (countdown <= 0) {
+      return;
+    }
+    const timer = window.setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [countdown]);
+
+  const sendCode = async () => {
+    const valid = await form.trigger("phone");
+    if (!valid) {
+      return;
+    }
+    try {
+      await props.onSendCode?.(form.getValues("phone"));
+      setCountdown(RESEND_SECONDS);
+    } catch {
+      // 发送失败的提示由调用方负责，这里只是不进入倒计时
+    }
+  };
+
+  const onSubmit = async (values: CodeLoginValues) => {
+    await props.onSubmit?.(values);
+  };
+
   return (
-    <form className={cn("flex flex-col gap-6")} onSubmit={onSubmit} >
-      <FieldGroup>
-        <div className="flex flex-col items-center gap-1 text-center">
-          <h1 className="text-2xl font-bold">登录账户</h1>
-          <p className="text-muted-foreground text-sm text-balance">
-            在下方选择账户名来从上次进度继续学习
-          </p>
-        </div>
-        <Field>
-          <div className="flex items-center">
-            <FieldLabel htmlFor="user_id">账户名</FieldLabel>
+    <Form {...form}>
+      <form className={cn("flex flex-col gap-6")} onSubmit={form.handleSubmit(onSubmit)} >
+        <FieldGroup>
+          <div className="flex flex-col items-center gap-1 text-center">
+            <h1 className="text-2xl font-bold">验证码登录</h1>
+            <p className="text-muted-foreground text-sm text-balance">
+              未注册的手机号将自动创建账户
+            </p>
           </div>
-          <Select name="user_id" required>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="选择一个账户" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectGroup>
-                {props.userList?.map((user)=>{
-                  return <SelectItem key={user.user_id} value={user.user_id}>{user.name}</SelectItem>
-                })}
-              </SelectGroup>
-            </SelectContent>
-          </Select>
-        </Field>
-        <Field>
-          <Button type="submit">登录</Button>
-        </Field>
-      </FieldGroup>
-    </form>
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>手机号</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" autoComplete="tel" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>验证码</FormLabel>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input inputMode="numeric" autoComplete="one-time-code" {...field} />
+                  </FormControl>
+                  <Button type="button" variant="outline" disabled={countdown > 0} onClick={sendCode}>
+                    {countdown > 0 ? `${countdown}秒后重发` : "获取验证码"}
+                  </Button>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Field>
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? "登录中..." : "登录"}
+            </Button>
+          </Field>
+        </FieldGroup>
+      </form>
+    </Form>
   )
 }
@@ -0,0 +1,132 @@
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { MarkdownRenderer } from "@/components/ui/markdown-renderer"
+import type { SectionResponse } from "@/server/training-server"
+import { z } from "zod"
+import { useForm, useWatch } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useDeferredValue } from "react"
+
+const sectionFormSchema = z.object({
+  title: z.string().trim().min(1, "请输入小节标题").max(100, "小节标题最多 100 个字符"),
+  estimated_time: z
+    .number({ error: "请输入数字" })
+    .int("请输入整数分钟")
+    .min(0, "学习时长不能为负数")
+    .optional(),
+  video_url: z.union([z.literal(""), z.url("请输入有效的视频地址")]),
+  knowledge_content: z.string(),
+});
+
+export type SectionFormValues = z.infer<typeof sectionFormSchema>;
+
+/** 编辑小节内容的表单，知识点讲解支持 markdown 实时预览 */
+export function SectionForm(props: {
+  section?: SectionResponse;
+  onSubmit: (values: SectionFormValues) => Promise<void> | void;
+}) {
+  const form = useForm<SectionFormValues>({
+    resolver: zodResolver(sectionFormSchema),
+    values: {
+      title: props.section?.title ?? "",
+      estimated_time: props.section?.estimated_time,
+      video_url: props.section?.video_url ?? "",
+      knowledge_content: props.section?.knowledge_content ?? "",
+    },
+  });
+  const content = useWatch({ control: form.control, name: "knowledge_content" });
+  // 长文档渲染较慢，预览落后于输入也不影响打字
+  const preview = useDeferredValue(content);
+
+  return (
+    <Form {...form}>
+      <form className="flex flex-col gap-4" onSubmit={form.handleSubmit(props.onSubmit)}>
+        <div className="grid grid-cols-[1fr_160px] gap-4">
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>小节标题</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="estimated_time"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>学习时长（分钟）</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(event) =>
+                      field.onChange(event.target.value === "" ? undefined : event.target.valueAsNumber)
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="video_url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>视频地址</FormLabel>
+              <FormControl>
+                <Input placeholder="https://" {...field} />
+              </FormControl>
+              <FormDescription>支持 mp4 或 DASH 的 mpd 地址</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="knowledge_content"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>知识点讲解</FormLabel>
+              <div className="grid grid-cols-2 gap-4">
+                <FormControl>
+                  <Textarea className="min-h-[360px] font-mono" {...field} />
+                </FormControl>
+                <div className="min-h-[360px] max-h-[600px] overflow-auto rounded-md border p-3 text-sm">
+                  {preview ? (
+                    <MarkdownRenderer content={preview} />
+                  ) : (
+                    <span className="text-muted-foreground">在左侧输入 markdown，这里实时预览</span>
+                  )}
+                </div>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="self-end" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "保存中..." : "保存小节"}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -13,6 +13,11 @@ import { chapterServer, courseServer, sectionsServer } from "@/server/training-s
 import { Clock, PlugZap } from "lucide-react";
 import { useParams } from "react-router"
 
+/** 还没拿到 chapter_id 时的占位请求，放在组件外保证引用稳定，才能命中缓存 */
+const noopFetch = async () => {
+  return undefined as any;
+};
+
 export function SectionHeader() {
   const params = useParams();
   const sectionId = params.sectionId;
@@ -21,9 +26,6 @@ export function SectionHeader() {
   const { data: section } = useAutoCache(sectionsServer.getById, [{section_id: sectionId}]);
   // Only fetch chapter when we actually have a chapter_id from section
   const chapterId = section?.data?.chapter_id;
-  const noopFetch = async () => {
-    return undefined as any;
-  };
   const { data: chapter } = useAutoCache(
     chapterId ? chapterServer.getById : noopFetch,
     chapterId ? [{ chapter_id: chapterId }] : []
@@ -2,40 +2,112 @@ import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import {
   Field,
-  FieldDescription,
   FieldGroup,
-  FieldLabel,
-  FieldSeparator,
 } from "@/components/ui/field"
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
-import { type UserResponse } from "@/server/training-server"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+
+const signupSchema = z
+  .object({
+    name: z.string().trim().min(1, "请输入昵称"),
+    username: z.string().trim().min(3, "账户名至少 3 个字符"),
+    password: z.string().min(6, "密码至少 6 位"),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "两次输入的密码不一致",
+    path: ["confirmPassword"],
+  });
+
+export type SignupValues = z.infer<typeof signupSchema>;
 
-export function SignupForm(props: {onSubmit?: (name: string) => void }) {
-  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const value = Object.fromEntries(formData.entries());
-    props.onSubmit&&props.onSubmit(value.name as string);
-  }
+export function SignupForm(props: { onSubmit?: (values: SignupValues) => Promise<void> | void }) {
+  const form = useForm<SignupValues>({
+    resolver: zodResolver(signupSchema),
+    defaultValues: { name: "", username: "", password: "", confirmPassword: "" },
+  });
+  const onSubmit = async (values: SignupValues) => {
+    await props.onSubmit?.(values);
+  };
   return (
-    <form className={cn("flex flex-col gap-6")} onSubmit={onSubmit} >
-      <FieldGroup>
-        <div className="flex flex-col items-center gap-1 text-center">
-          <h1 className="text-2xl font-bold">创建账户</h1>
-          <p className="text-muted-foreground text-sm text-balance">
-            在下方输入账户名来创建新账户来保存学习进度
-          </p>
-        </div>
-        <Field>
-          <div className="flex items-center">
-            <FieldLabel htmlFor="name">账户名</FieldLabel>
+    <Form {...form}>
+      <form className={cn("flex flex-col gap-6")} onSubmit={form.handleSubmit(onSubmit)} >
+        <FieldGroup>
+          <div className="flex flex-col items-center gap-1 text-center">
+            <h1 className="text-2xl font-bold">创建账户</h1>
+            <p className="text-muted-foreground text-sm text-balance">
+              创建新账户来保存学习进度
+            </p>
           </div>
-          <Input name="name" required />
-        </Field>
-        <Field>
-          <Button type="submit">创建并登录</Button>
-        </Field>
-      </FieldGroup>
-    </form>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>昵称</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>账户名</FormLabel>
+                <FormControl>
+                  <Input autoComplete="username" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>密码</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>确认密码</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Field>
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? "创建中..." : "创建并登录"}
+            </Button>
+          </Field>
+        </FieldGroup>
+      </form>
+    </Form>
   )
 }
@@ -0,0 +1,84 @@
+import { GripVertical } from "lucide-react";
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+
+/** 把 from 位置的元素移动到 to 位置，返回新数组 */
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/**
+ * 拖拽排序列表，使用浏览器原生的拖放事件
+ * 只负责交互和回调排序后的结果，保存顺序由调用方处理
+ */
+export function SortableList<T>(props: {
+  items: T[];
+  getKey: (item: T) => string;
+  /** 拖拽结束后的新顺序 */
+  onReorder: (items: T[]) => void;
+  children: (item: T, index: number) => React.ReactNode;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  function reset() {
+    setDragIndex(null);
+    setOverIndex(null);
+  }
+
+  function drop(index: number) {
+    if (dragIndex !== null && dragIndex !== index) {
+      props.onReorder(moveItem(props.items, dragIndex, index));
+    }
+    reset();
+  }
+
+  return (
+    <ul className={cn("flex flex-col gap-1", props.className)}>
+      {props.items.map((item, index) => (
+        <li
+          key={props.getKey(item)}
+          draggable={!props.disabled}
+          onDragStart={(event) => {
+            // 嵌套列表时只拖动最内层
+            event.stopPropagation();
+            event.dataTransfer.effectAllowed = "move";
+            setDragIndex(index);
+          }}
+          onDragOver={(event) => {
+            if (dragIndex === null) {
+              return;
+            }
+            event.preventDefault();
+            event.stopPropagation();
+            setOverIndex(index);
+          }}
+          onDrop={(event) => {
+            if (dragIndex === null) {
+              return;
+            }
+            event.preventDefault();
+            event.stopPropagation();
+            drop(index);
+          }}
+          onDragEnd={reset}
+          className={cn(
+            "flex items-start gap-1 rounded-md",
+            dragIndex === index && "opacity-50",
+            overIndex === index && dragIndex !== index && "ring-2 ring-primary/40",
+          )}
+        >
+          {!props.disabled && (
+            <GripVertical className="mt-2.5 size-4 shrink-0 cursor-grab text-muted-foreground" />
+          )}
+          <div className="min-w-0 flex-1">{props.children(item, index)}</div>
+        </li>
+      ))}
+    </ul>
+  );
+}
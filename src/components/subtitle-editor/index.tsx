@@ -0,0 +1,261 @@
+import { useEffect, useRef, useState } from "react";
+import { Combine, Download, FileUp, Plus, Scissors, Trash2, Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn, downloadText } from "@/lib/utils";
+import {
+  cueRange,
+  findActiveCue,
+  findOverlaps,
+  fixOverlaps,
+  formatTimestamp,
+  mergeWithNext,
+  parseSubtitleFile,
+  parseTimestamp,
+  renumber,
+  shiftSubtitles,
+  splitSubtitle,
+  toSrt,
+  toVtt,
+} from "@/lib/subtitle";
+import type { Subtitle } from "@/server/training-server";
+
+const TIMESTAMP_PATTERN = /^\d{2}:\d{2}:\d{2},\d{3}$/;
+
+/** 新增字幕的默认时长（秒） */
+const DEFAULT_CUE_DURATION = 2;
+
+/** 时间轴：按时间画出每条字幕，点击跳转 */
+function SubtitleTimeline(props: {
+  subtitles: Subtitle[];
+  currentTime: number;
+  duration: number;
+  activeIndex: number;
+  overlaps: Set<number>;
+  onSeek: (seconds: number) => void;
+}) {
+  const duration = Math.max(
+    props.duration,
+    ...props.subtitles.map((subtitle) => parseTimestamp(subtitle.end)),
+    1,
+  );
+  const percent = (seconds: number) => `${(seconds / duration) * 100}%`;
+  return (
+    <div
+      className="relative h-8 w-full cursor-pointer rounded bg-muted"
+      onClick={(event) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        props.onSeek(((event.clientX - rect.left) / rect.width) * duration);
+      }}
+    >
+      {props.subtitles.map((subtitle, index) => {
+        const { start, end } = cueRange(subtitle);
+        return (
+          <div
+            key={index}
+            title={subtitle.text}
+            className={cn(
+              "absolute top-1 bottom-1 rounded-sm bg-primary/30",
+              index === props.activeIndex && "bg-primary/70",
+              props.overlaps.has(index) && "bg-destructive/60",
+            )}
+            style={{ left: percent(start), width: `max(2px, ${percent(end - start)})` }}
+          />
+        );
+      })}
+      <div className="absolute top-0 bottom-0 w-0.5 bg-red-500" style={{ left: percent(props.currentTime) }} />
+    </div>
+  );
+}
+
+/** 一条字幕的时间输入框，失焦时校验格式 */
+function TimestampInput(props: { value: string; onChange: (value: string) => void }) {
+  const [draft, setDraft] = useState(props.value);
+  useEffect(() => {
+    setDraft(props.value);
+  }, [props.value]);
+  const valid = TIMESTAMP_PATTERN.test(draft);
+  return (
+    <Input
+      className="h-8 w-[120px] font-mono text-xs"
+      aria-invalid={!valid}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={() => {
+        if (valid) {
+          props.onChange(draft);
+        } else {
+          setDraft(props.value);
+        }
+      }}
+    />
+  );
+}
+
+/**
+ * 字幕编辑器，和视频播放器同步
+ * 当前播放的字幕会高亮并滚动到可见区域，点击时间跳转播放器
+ */
+export function SubtitleEditor(props: {
+  subtitles: Subtitle[];
+  onChange: (subtitles: Subtitle[]) => void;
+  currentTime: number;
+  duration: number;
+  onSeek: (seconds: number) => void;
+  /** 导出文件名，不含扩展名 */
+  fileName?: string;
+}) {
+  const { subtitles, onChange, currentTime } = props;
+  const [offset, setOffset] = useState("0");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeIndex = findActiveCue(subtitles, currentTime);
+  const overlaps = findOverlaps(subtitles);
+  const fileName = props.fileName ?? "subtitles";
+
+  useEffect(() => {
+    if (activeIndex === -1) {
+      return;
+    }
+    listRef.current
+      ?.querySelector(`[data-cue-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeIndex]);
+
+  function updateCue(index: number, patch: Partial<Subtitle>) {
+    onChange(subtitles.map((subtitle, i) => (i === index ? { ...subtitle, ...patch } : subtitle)));
+  }
+
+  function addAtCurrentTime() {
+    const next = [
+      ...subtitles,
+      {
+        seq: 0,
+        start: formatTimestamp(currentTime),
+        end: formatTimestamp(currentTime + DEFAULT_CUE_DURATION),
+        text: "新字幕",
+      },
+    ];
+    onChange(renumber(next.sort((a, b) => parseTimestamp(a.start) - parseTimestamp(b.start))));
+  }
+
+  async function importFile(file: File) {
+    const imported = parseSubtitleFile(file.name, await file.text());
+    if (imported.length === 0) {
+      alert("没有识别到字幕，请确认文件是 SRT 或 WebVTT 格式");
+      return;
+    }
+    if (subtitles.length === 0 || confirm(`导入 ${imported.length} 条字幕，将替换现有的 ${subtitles.length} 条，确定吗？`)) {
+      onChange(imported);
+    }
+  }
+
+  function shiftAll() {
+    const seconds = Number(offset);
+    if (!Number.isFinite(seconds) || seconds === 0) {
+      return;
+    }
+    onChange(shiftSubtitles(subtitles, seconds));
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <FileUp />导入 SRT/VTT
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".srt,.vtt,text/vtt"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              importFile(file);
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" disabled={!subtitles.length} onClick={() => downloadText(`${fileName}.srt`, toSrt(subtitles), "application/x-subrip")}>
+          <Download />导出 SRT
+        </Button>
+        <Button type="button" variant="outline" size="sm" disabled={!subtitles.length} onClick={() => downloadText(`${fileName}.vtt`, toVtt(subtitles), "text/vtt")}>
+          <Download />导出 VTT
+        </Button>
+        <span className="mx-1 h-6 w-px bg-border" />
+        <Input
+          className="h-8 w-[88px]"
+          type="number"
+          step="0.1"
+          value={offset}
+          onChange={(event) => setOffset(event.target.value)}
+          title="正数延后，负数提前"
+        />
+        <Button type="button" variant="outline" size="sm" disabled={!subtitles.length} onClick={shiftAll}>
+          整体平移（秒）
+        </Button>
+        <Button type="button" variant="outline" size="sm" disabled={overlaps.size === 0} onClick={() => onChange(fixOverlaps(subtitles))}>
+          <Wrench />修复重叠{overlaps.size ? `（${overlaps.size}）` : ""}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={addAtCurrentTime}>
+          <Plus />在当前时间添加
+        </Button>
+      </div>
+      <SubtitleTimeline
+        subtitles={subtitles}
+        currentTime={currentTime}
+        duration={props.duration}
+        activeIndex={activeIndex}
+        overlaps={overlaps}
+        onSeek={props.onSeek}
+      />
+      <div ref={listRef} className="flex max-h-[480px] flex-col gap-1 overflow-auto">
+        {subtitles.map((subtitle, index) => (
+          <div
+            key={index}
+            data-cue-index={index}
+            className={cn(
+              "flex items-start gap-2 rounded-md border p-2",
+              index === activeIndex && "border-primary bg-primary/5",
+              overlaps.has(index) && "border-destructive",
+            )}
+          >
+            <button
+              type="button"
+              className="w-8 shrink-0 pt-1.5 text-left text-xs text-muted-foreground hover:text-primary"
+              title="跳转到这条字幕"
+              onClick={() => props.onSeek(parseTimestamp(subtitle.start))}
+            >
+              #{subtitle.seq}
+            </button>
+            <div className="flex shrink-0 flex-col gap-1">
+              <TimestampInput value={subtitle.start} onChange={(start) => updateCue(index, { start })} />
+              <TimestampInput value={subtitle.end} onChange={(end) => updateCue(index, { end })} />
+            </div>
+            <Textarea
+              className="min-h-16 flex-1"
+              value={subtitle.text}
+              onChange={(event) => updateCue(index, { text: event.target.value })}
+            />
+            <div className="flex shrink-0 flex-col">
+              <Button type="button" variant="ghost" size="icon" className="size-7" title="在当前时间拆分" onClick={() => onChange(splitSubtitle(subtitles, index, currentTime))}>
+                <Scissors className="size-3.5" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="size-7" title="与下一条合并" disabled={index === subtitles.length - 1} onClick={() => onChange(mergeWithNext(subtitles, index))}>
+                <Combine className="size-3.5" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="size-7" title="删除" onClick={() => onChange(renumber(subtitles.filter((_, i) => i !== index)))}>
+                <Trash2 className="size-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {subtitles.length === 0 && (
+          <div className="text-sm text-muted-foreground">还没有字幕，可以导入 SRT/VTT 文件或在当前时间添加</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import remarkMath from 'remark-math';
 import { CodeBlock, CodeBlockCopyButton } from './code-block';
 import 'katex/dist/katex.min.css';
 import hardenReactMarkdown from 'harden-react-markdown';
+import { splitMarkdownBlocks } from '@/lib/markdown-blocks';
 
 
 /**
@@ -159,6 +160,14 @@ function parseIncompleteMarkdown(text: string): string {
 // Create a hardened version of ReactMarkdown
 const HardenedMarkdown = hardenReactMarkdown(ReactMarkdown);
 
+// 按块缓存解析结果，流式输出时只有最后一块的文字在变，前面的块不再重新解析
+const MarkdownBlock = memo(
+  (props: ComponentProps<typeof HardenedMarkdown>) => <HardenedMarkdown {...props} />,
+  (prevProps, nextProps) => prevProps.children === nextProps.children
+);
+
+MarkdownBlock.displayName = 'MarkdownBlock';
+
 export type ResponseProps = HTMLAttributes<HTMLDivElement> & {
   options?: Options;
   children: Options['children'];
@@ -363,6 +372,16 @@ export const Response = memo(
       typeof children === 'string' && shouldParseIncompleteMarkdown
         ? parseIncompleteMarkdown(children)
         : children;
+    const blocks =
+      typeof parsedChildren === 'string'
+        ? splitMarkdownBlocks(parsedChildren)
+        : [parsedChildren];
+    // Extra components and remark plugins extend the defaults instead of replacing them
+    const {
+      components: extraComponents,
+      remarkPlugins: extraRemarkPlugins,
+      ...restOptions
+    } = options ?? {};
 
     return (
       <div
@@ -372,17 +391,24 @@ export const Response = memo(
         )}
         {...props}
       >
-        <HardenedMarkdown
-          allowedImagePrefixes={allowedImagePrefixes ?? ['*']}
-          allowedLinkPrefixes={allowedLinkPrefixes ?? ['*']}
-          components={components}
-          defaultOrigin={defaultOrigin}
-          rehypePlugins={[rehypeKatex]}
-          remarkPlugins={[remarkGfm, remarkMath]}
-          {...options}
-        >
-          {parsedChildren}
-        </HardenedMarkdown>
+        {blocks.map((block, index) => (
+          <MarkdownBlock
+            allowedImagePrefixes={allowedImagePrefixes ?? ['*']}
+            allowedLinkPrefixes={allowedLinkPrefixes ?? ['*']}
+            components={{ ...components, ...extraComponents }}
+            defaultOrigin={defaultOrigin}
+            key={index}
+            rehypePlugins={[rehypeKatex]}
+            remarkPlugins={[
+              remarkGfm,
+              remarkMath,
+              ...(extraRemarkPlugins ?? []),
+            ]}
+            {...restOptions}
+          >
+            {block}
+          </MarkdownBlock>
+        ))}
       </div>
     );
   },
@@ -8,8 +8,9 @@ import {
   Minimize,
   PictureInPicture2
 } from 'lucide-react';
-import { useState } from 'react';
+import { Fragment, useMemo, useState } from 'react';
 import { Slider } from '@/components/ui/slider';
+import { findActiveMarker } from '@/lib/subtitle';
 
 
 
@@ -22,20 +23,86 @@ export interface Quality {
 
 
 // Progress Bar Component
+/** 进度条上的知识点标记 */
+export interface ProgressMarker {
+  /** 秒 */
+  time: number;
+  title: string;
+  description?: string;
+}
+
 interface ProgressBarProps {
   bufferedPercent: number;
   playedPercent: number;
+  duration: number;
+  markers?: ProgressMarker[];
   onSeek: (e: React.MouseEvent<HTMLDivElement>) => void;
 }
 
-const ProgressBar: React.FC<ProgressBarProps> = ({ bufferedPercent, playedPercent, onSeek }) => (
-  <div className="relative h-[5px] bg-white/30 cursor-pointer mb-[10px] rounded-[3px] hover:h-[7px] group" onClick={onSeek}>
-    <div className="absolute h-full bg-white/50 rounded-[3px] transition-[width] duration-200" style={{ width: `${bufferedPercent}%` }} />
-    <div className="absolute h-full bg-[#00AEEC] rounded-[3px] transition-[width] duration-100" style={{ width: `${playedPercent}%` }}>
-      <div className="absolute right-[-6px] top-1/2 -translate-y-1/2 w-[12px] h-[12px] bg-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-200 shadow-lg" />
+const formatMarkerTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+/** 有知识点时进度条按知识点分段显示，悬停时提示该段的标题和描述 */
+const ProgressBar: React.FC<ProgressBarProps> = ({ bufferedPercent, playedPercent, duration, markers = [], onSeek }) => {
+  const [hoverPercent, setHoverPercent] = useState<number | null>(null);
+  const sorted = useMemo(() => [...markers].sort((a, b) => a.time - b.time), [markers]);
+  const hasMarkers = duration > 0 && sorted.length > 0;
+  const hoverTime = hoverPercent === null ? 0 : (hoverPercent / 100) * duration;
+  const hoverMarker = hoverPercent === null ? -1 : findActiveMarker(sorted.map(marker => marker.time), hoverTime);
+  const toPercent = (time: number) => Math.min(100, Math.max(0, (time / duration) * 100));
+
+  return (
+    <div
+      className="relative h-[5px] bg-white/30 cursor-pointer mb-[10px] rounded-[3px] hover:h-[7px] group"
+      onClick={onSeek}
+      onMouseMove={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        setHoverPercent(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+      }}
+      onMouseLeave={() => setHoverPercent(null)}
+    >
+      <div className="absolute h-full bg-white/50 rounded-[3px] transition-[width] duration-200" style={{ width: `${bufferedPercent}%` }} />
+      <div className="absolute h-full bg-[#00AEEC] rounded-[3px] transition-[width] duration-100" style={{ width: `${playedPercent}%` }}>
+        <div className="absolute right-[-6px] top-1/2 -translate-y-1/2 w-[12px] h-[12px] bg-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-200 shadow-lg z-10" />
+      </div>
+      {hasMarkers && sorted.map((marker, index) => {
+        const start = toPercent(marker.time);
+        const end = index + 1 < sorted.length ? toPercent(sorted[index + 1].time) : 100;
+        return (
+          <Fragment key={index}>
+            {/* 悬停的分段加亮 */}
+            {index === hoverMarker && (
+              <div className="absolute h-full bg-white/30 pointer-events-none" style={{ left: `${start}%`, width: `${end - start}%` }} />
+            )}
+            {/* 分段之间的间隔 */}
+            {marker.time > 0 && (
+              <div className="absolute h-full w-[2px] -translate-x-1/2 bg-black/70 pointer-events-none" style={{ left: `${start}%` }} />
+            )}
+          </Fragment>
+        );
+      })}
+      {hoverPercent !== null && duration > 0 && (
+        <div
+          className="absolute bottom-[14px] -translate-x-1/2 max-w-[260px] w-max bg-black/90 backdrop-blur-sm text-white rounded-lg px-3 py-2 text-xs shadow-xl pointer-events-none"
+          style={{ left: `clamp(80px, ${hoverPercent}%, calc(100% - 80px))` }}
+        >
+          {hoverMarker !== -1 && (
+            <>
+              <div className="font-semibold text-[13px]">{sorted[hoverMarker].title}</div>
+              {sorted[hoverMarker].description && (
+                <div className="text-white/80 mt-1 line-clamp-3">{sorted[hoverMarker].description}</div>
+              )}
+            </>
+          )}
+          <div className={hoverMarker !== -1 ? 'text-white/60 mt-1' : ''}>{formatMarkerTime(hoverTime)}</div>
+        </div>
+      )}
     </div>
-  </div>
-);
+  );
+};
 
 // Volume Control Component with shadcn Slider
 interface VolumeControlProps {
@@ -306,6 +373,8 @@ interface VideoControlsProps {
   onToggleFullscreen: () => void;
   onTogglePiP: () => void;
   onSubtitleToggle: (show: boolean) => void;
+  /** 知识点标记 */
+  markers?: ProgressMarker[];
 }
 
 const VideoControls: React.FC<VideoControlsProps> = ({
@@ -335,8 +404,12 @@ const VideoControls: React.FC<VideoControlsProps> = ({
   onLoginClick,
   onToggleFullscreen,
   onTogglePiP,
-  onSubtitleToggle
+  onSubtitleToggle,
+  markers,
 }) => {
+  const sortedMarkers = useMemo(() => [...(markers ?? [])].sort((a, b) => a.time - b.time), [markers]);
+  const activeMarker = findActiveMarker(sortedMarkers.map(marker => marker.time), currentTime);
+
   const formatTime = (seconds: number): string => {
     if (!isFinite(seconds)) return '00:00';
     const mins = Math.floor(seconds / 60);
@@ -352,6 +425,8 @@ const VideoControls: React.FC<VideoControlsProps> = ({
       <ProgressBar
         bufferedPercent={bufferedPercent}
         playedPercent={playedPercent}
+        duration={duration}
+        markers={markers}
         onSeek={onSeek}
       />
 
@@ -375,6 +450,11 @@ const VideoControls: React.FC<VideoControlsProps> = ({
           <span className="text-white text-[14px] select-none font-medium">
             {formatTime(currentTime)} / {formatTime(duration)}
           </span>
+          {activeMarker !== -1 && (
+            <span className="text-white/80 text-[14px] select-none truncate max-w-[240px]" title={sortedMarkers[activeMarker].description}>
+              · {sortedMarkers[activeMarker].title}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-[10px]">
@@ -3,13 +3,18 @@ import * as dashJs from 'dashjs';
 import { uniqueId } from 'lodash';
 import type { MediaPlayerClass } from 'dashjs';
 import { serverHost, type KnowledgePoints, type Subtitle } from '@/server/training-server';
-import type { Quality } from '../video-controls';
+import type { ProgressMarker, Quality } from '../video-controls';
 import VideoControls from '../video-controls';
 import BilibiliLoginModal from '../bilibili-login-modal';
 import aiVideoAssistantImg from './ai_video_assistant.png';
 import questionHereImg from './question_here.png';
 import { sendToAI } from '../ai-conversation';
 import { AIVideoSummary } from '../ai_video_assistant';
+import { parseTimestamp } from '@/lib/subtitle';
+import { useAppEvent } from '@/hooks/use-app-event';
+import { videoPosition } from '@/lib/video-position';
+import { buildVideoContext } from '@/lib/video-context';
+import { useParams } from 'react-router';
 
 export interface Source {
   src: string;
@@ -36,6 +41,8 @@ interface PlayerProps {
   onPause?: () => void;
   onEnded?: () => void;
   onLoginSuccess?: () => void;
+  /** 播放进度变化时回调，单位秒 */
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
 }
 
 export interface VideoPlayerRef {
@@ -43,16 +50,12 @@ export interface VideoPlayerRef {
   getPlayer: () => MediaPlayerClass | null;
   play: () => void;
   pause: () => void;
+  /** 跳转到指定秒数 */
+  seekTo: (seconds: number) => void;
+  /** 当前播放的秒数 */
+  getCurrentTime: () => number;
 }
 
-// 时间格式转换工具函数
-const parseTimeToSeconds = (timeString: string): number => {
-  const [time, milliseconds] = timeString.split(',');
-  const [hours, minutes, seconds] = time.split(':').map(Number);
-  const ms = Number(milliseconds || 0);
-  return hours * 3600 + minutes * 60 + seconds + ms / 1000;
-};
-
 // Main Video Player Component
 export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
   (
@@ -71,9 +74,12 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
       onPause,
       onEnded,
       onLoginSuccess,
+      onTimeUpdate,
     },
     ref
   ) => {
+    const params = useParams();
+
     // State
     const [options, setOptions] = useState<Source>({
       src: '',
@@ -115,16 +121,31 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
     const hideControlsTimer = useRef<number | null>(null);
     const previousBlobUrl = useRef<string | null>(null);
     const subtitleRef = useRef<HTMLDivElement | null>(null);
+    // 进度回调放在 ref 里，父组件每次渲染传进新函数时不必重新绑定视频事件
+    const onTimeUpdateRef = useRef(onTimeUpdate);
+
+    useEffect(() => {
+      onTimeUpdateRef.current = onTimeUpdate;
+    });
 
     // 处理字幕数据，预先转换时间为秒数
     const processedSubtitles = useMemo(() => {
       return subtitles.map(sub => ({
         ...sub,
-        startTime: parseTimeToSeconds(sub.start),
-        endTime: parseTimeToSeconds(sub.end),
+        startTime: parseTimestamp(sub.start),
+        endTime: parseTimestamp(sub.end),
       }));
     }, [subtitles]);
 
+    // 知识点在进度条上的标记
+    const markers = useMemo<ProgressMarker[]>(() => {
+      return (knowledge_points.key_points ?? []).map(point => ({
+        time: parseTimestamp(point.time),
+        title: point.title,
+        description: point.description,
+      }));
+    }, [knowledge_points]);
+
     // Computed
     const containerWidth = useMemo(() => {
       return width.includes('%') || width.includes('px') ? width : `${width}px`;
@@ -314,6 +335,20 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
       }
     };
 
+    /** 跳转到指定时间并开始播放，优先用 dash.js 的 seek，保证缓冲区跟着切换 */
+    const seekAndPlay = (seconds: number) => {
+      const video = videoPlayerRef.current;
+      if (!video) return;
+      const target = Math.max(0, Math.min(seconds, video.duration || seconds));
+      if (playerRef.current?.isReady()) {
+        playerRef.current.seek(target);
+      } else {
+        video.currentTime = target;
+      }
+      updateProgress();
+      video.play().catch(err => console.warn('跳转后播放失败：', err));
+    };
+
     const seek = (e: React.MouseEvent<HTMLDivElement>) => {
       if (!videoPlayerRef.current) return;
       const rect = e.currentTarget.getBoundingClientRect();
@@ -475,8 +510,10 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
     const updateProgress = () => {
       if (!videoPlayerRef.current) return;
       setCurrentTime(videoPlayerRef.current.currentTime);
+      videoPosition.set(videoPlayerRef.current.currentTime);
       setDuration(videoPlayerRef.current.duration);
       setPlayedPercent((videoPlayerRef.current.currentTime / videoPlayerRef.current.duration) * 100 || 0);
+      onTimeUpdateRef.current?.(videoPlayerRef.current.currentTime, videoPlayerRef.current.duration || 0);
 
       const buffered = videoPlayerRef.current.buffered;
       if (buffered.length > 0) {
@@ -617,6 +654,13 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
       getPlayer: () => playerRef.current,
       play: () => videoPlayerRef.current?.play(),
       pause: () => videoPlayerRef.current?.pause(),
+      seekTo: (seconds: number) => {
+        if (videoPlayerRef.current) {
+          videoPlayerRef.current.currentTime = Math.max(0, seconds);
+          updateProgress();
+        }
+      },
+      getCurrentTime: () => videoPlayerRef.current?.currentTime ?? 0,
     }));
 
     const handleLoginSuccess = () => {
@@ -672,8 +716,10 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
     }, [onPlay, onPause, onEnded, onError, onLoaded, autoPlay]);
 
     useEffect(() => {
+      videoPosition.set(0);
       return () => {
         destroyPlayer();
+        videoPosition.clear();
         if (videoPlayerRef.current) {
           videoPlayerRef.current.src = '';
           videoPlayerRef.current.load();
@@ -681,6 +727,12 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
       };
     }, []);
 
+    // 外部要求跳转时（例如点击 AI 回答里的字幕引用），把播放器滚到可见位置并从该处播放
+    useAppEvent('video:seek', ({ seconds }) => {
+      videoPlayerRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      seekAndPlay(seconds);
+    });
+
     const messagePosition = showControls ? 'bottom-24' : 'bottom-8';
 
     const getProgress = () => {
@@ -696,17 +748,11 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
       };
     };
 
+    // 时间点、字幕和知识点作为结构化上下文发送，输入框留给学员自己的问题
     const askAI = () => {
       const progress = getProgress();
-      const currentSeconds = Math.max(0, Math.floor(progress?.currentTime ?? 0));
-      const pad = (n: number) => n.toString().padStart(2, '0');
-      const hh = pad(Math.floor(currentSeconds / 3600));
-      const mm = pad(Math.floor((currentSeconds % 3600) / 60));
-      const ss = pad(currentSeconds % 60);
-      const timeStr = `${hh}:${mm}:${ss}`;
-      const text = `对于当前时间点：${timeStr}，我有以下问题：\n`;
-
-      sendToAI(text);
+      const videoContext = buildVideoContext(Math.max(0, progress.currentTime), subtitles, knowledge_points, params.sectionId);
+      sendToAI('', { videoContext });
     };
 
     return (
@@ -785,6 +831,7 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
             onToggleFullscreen={toggleFullscreen}
             onTogglePiP={togglePiP}
             onSubtitleToggle={handleSubtitleToggle}
+            markers={markers}
           />
         </div>
         <div className='flex gap-4 justify-end'>
@@ -792,6 +839,8 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, PlayerProps>(
             data={knowledge_points}
             open={showKnowledgePoints}
             onOpenChange={setKnowledgePoints}
+            currentTime={currentTime}
+            onSeek={seekAndPlay}
             triggerButton={
               <button type='button' className='w-24 h-8 p-0 bg-transparent border-0 flex items-center justify-center cursor-pointer focus:outline-none'>
                 <img src={aiVideoAssistantImg} alt='AI视频助手' className='max-w-full max-h-full' />
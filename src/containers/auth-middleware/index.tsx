@@ -1,19 +1,92 @@
-import { userServer, type UserResponse } from "@/server/training-server";
+import { authServer, type LoginResponse, type UserResponse, type UserRole } from "@/server/training-server";
+import { onUnauthorized, setTokenRefresher, tokenStore } from "@/lib/auth-token";
+import { TrainingApiError } from "@/lib/http-error";
+import { LAST_SESSION_STORAGE_KEY } from "@/lib/session-store";
+import { conversationIndex } from "@/lib/conversation-index";
 import { createContext, redirect, RouterContextProvider } from "react-router";
 
-const userContext = createContext<UserResponse>();
+export const userContext = createContext<UserResponse>();
 
 const USER_STORAGE_KEY = 'ala-training-user';
 
-export async function loginUser(user_id: string) {
-  const user = (await userServer.getById({user_id})).data;
-  if(user && user.user_id){
-    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
-    return user;
-  }{
-    throw new Error("没找到用户");
+/** 退出登录时需要清理的、和具体用户相关的本地数据前缀，`ai-session-` 是旧版本按章节保存的会话 */
+const USER_SCOPED_KEY_PREFIXES = [LAST_SESSION_STORAGE_KEY, 'ai-session-', 'ai-learning-review-'];
+
+/** 本次页面生命周期内已经校验过的登录状态，避免每次路由切换都请求后端 */
+let verified: Promise<UserResponse> | undefined;
+
+setTokenRefresher(async (refresh_token) => {
+  const session = (await authServer.refresh({ refresh_token })).data;
+  saveSession(session);
+  return toTokens(session);
+});
+
+// 刷新令牌也失败了，说明登录已经失效，回到登录页
+onUnauthorized(() => {
+  clearSession();
+  window.location.hash = '#/login';
+});
+
+function toTokens(session: LoginResponse) {
+  return {
+    accessToken: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresAt: session.expires_in ? Date.now() + session.expires_in * 1000 : undefined,
+  };
+}
+
+function saveSession(session: LoginResponse) {
+  tokenStore.set(toTokens(session));
+  localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(session.user));
+  verified = Promise.resolve(session.user);
+}
+
+function clearSession() {
+  tokenStore.clear();
+  localStorage.removeItem(USER_STORAGE_KEY);
+  verified = undefined;
+  for (const key of Object.keys(localStorage)) {
+    if (USER_SCOPED_KEY_PREFIXES.some(prefix => key.startsWith(prefix))) {
+      localStorage.removeItem(key);
+    }
+  }
+  conversationIndex.clear().catch(error => console.warn('清空对话索引失败', error));
+}
+
+/** 账号密码登录 */
+export async function login(username: string, password: string) {
+  const session = (await authServer.login({ username, password })).data;
+  saveSession(session);
+  return session.user;
+}
+
+/** 手机验证码登录 */
+export async function loginByCode(phone: string, code: string) {
+  const session = (await authServer.loginByCode({ phone, code })).data;
+  saveSession(session);
+  return session.user;
+}
+
+/** 注册新账号并直接登录 */
+export async function register(name: string, username: string, password: string) {
+  const session = (await authServer.register({ name, username, password })).data;
+  saveSession(session);
+  return session.user;
+}
+
+/** 退出登录，同时清理该用户在本地保存的会话记录 */
+export async function logout() {
+  const tokens = tokenStore.get();
+  try {
+    if (tokens) {
+      await authServer.logout({ refresh_token: tokens.refreshToken });
+    }
+  } catch (error) {
+    // 后端注销失败不影响本地退出
+    console.warn('注销令牌失败', error);
+  } finally {
+    clearSession();
   }
-  
 }
 
 export function getLoginUser(): UserResponse {
@@ -26,12 +99,57 @@ export function getLoginUser(): UserResponse {
   return user;
 }
 
+/** 向后端确认令牌仍然有效，并用后端返回的用户信息更新本地缓存 */
+function verifySession() {
+  if (!verified) {
+    verified = authServer.me().then(({ data: user }) => {
+      localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+      return user;
+    });
+    verified.catch(() => {
+      verified = undefined;
+    });
+  }
+  return verified;
+}
+
+/** 用户是否拥有其中任意一个角色，本地缓存的老用户数据没有角色时按学员处理 */
+export function hasRole(user: Pick<UserResponse, 'role'> | null | undefined, ...roles: UserRole[]) {
+  return !!user && roles.includes(user.role ?? 'learner');
+}
+
 export async function authMiddleware({ context }: { context: Readonly<RouterContextProvider> }) {
-  const user = getLoginUser();
+  if (!tokenStore.get()) {
+    throw redirect("/login");
+  }
 
-  if (!user || !user.user_id) {
-    throw redirect("/userList");
+  let user: UserResponse;
+  try {
+    user = await verifySession();
+  } catch (error) {
+    console.error('登录状态校验失败', error);
+    const localUser = getLoginUser();
+    // 只有后端明确拒绝令牌才退出登录，网络抖动时先沿用本地的用户信息
+    if ((error instanceof TrainingApiError && error.kind === 'validation') || !localUser?.user_id) {
+      clearSession();
+      throw redirect("/login");
+    }
+    user = localUser;
   }
 
   context.set(userContext, user);
 };
+
+/**
+ * 限制角色的路由中间件，需要放在 authMiddleware 之后
+ * 角色不符时跳转到 /forbidden，而不是悄悄退回登录页
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async function roleMiddleware({ context, request }: { context: Readonly<RouterContextProvider>, request: Request }) {
+    const user = context.get(userContext);
+    if (!hasRole(user, ...roles)) {
+      const from = new URL(request.url).pathname;
+      throw redirect(`/forbidden?from=${encodeURIComponent(from)}`);
+    }
+  };
+}
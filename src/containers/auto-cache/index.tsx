@@ -1,4 +1,5 @@
-import React, { useState, useEffect, type JSX } from "react";
+import React, { useCallback, useEffect, useRef, useSyncExternalStore, type JSX } from "react";
+import { queryCache, queryKeyOf, type QueryOptions } from "@/lib/query-cache";
 
 type AsyncReturnType<T extends (...args: any) => any> = T extends (...args: any) => Promise<infer U>
   ? U
@@ -15,18 +16,10 @@ export function AutoCache<T extends (...args: any) => Promise<any>>(props: {
   initialData?: AsyncReturnType<T>;
   /** 强制刷新缓存 */
   trigger?: number | string;
+  /** 缓存新鲜时间和失效标签 */
+  options?: QueryOptions;
 }) {
-  const [data, setData] = useState<AsyncReturnType<T> | undefined>(props.initialData);
-  const [error, setError] = useState<Error>();
-  useEffect(() => {
-    props
-      .fetch(...props.params)
-      .then((obj) => {
-        setData(obj);
-        setError(undefined);
-      })
-      .catch(setError);
-  }, [JSON.stringify(props.params), props.trigger]);
+  const { data, error } = useAutoCache(props.fetch, props.params, props.initialData, props.trigger, props.options);
   if (error) {
     console.error(error);
     return <ErrorDom />;
@@ -60,7 +53,23 @@ const MemoRender = React.memo(
     pre.children === next.children,
 );
 
-/** 自动缓存数据并自动刷新缓存组件 */
+/**
+ * 在参数后面补上 `{ signal }`，请求函数的最后一个参数约定为 `options?: { signal?: AbortSignal }`
+ * 前面的可选参数没传时用 undefined 补齐，保证 signal 落在 options 的位置上
+ */
+function argsWithSignal(fetch: (...args: never[]) => unknown, params: unknown[], signal: AbortSignal) {
+  const args = [...params];
+  while (args.length < fetch.length - 1) {
+    args.push(undefined);
+  }
+  return [...args, { signal }];
+}
+
+/**
+ * 自动缓存数据并自动刷新缓存组件
+ * 数据存放在全局的 queryCache 中，相同 fetch + params 的组件共享同一份数据和同一个请求
+ * 参数变化或组件卸载后，还没完成的请求通过传给 fetch 的 signal 中止
+ */
 export function useAutoCache<T extends (...args: any) => Promise<any>>(
   fetch: T,
   params: Parameters<T>,
@@ -68,29 +77,43 @@ export function useAutoCache<T extends (...args: any) => Promise<any>>(
   initialData?: AsyncReturnType<T>,
   /** 强制刷新缓存 */
   trigger?: number | string,
+  /** 缓存新鲜时间和失效标签 */
+  options?: QueryOptions,
 ) {
-  const [data, setData] = useState<AsyncReturnType<T> | undefined>(initialData);
-  const [error, setError] = useState<Error>();
+  const key = queryKeyOf(fetch, params);
+  const snapshot = useSyncExternalStore(
+    useCallback((listener: () => void) => queryCache.subscribe(key, listener), [key]),
+    () => queryCache.getSnapshot(key),
+  );
+
+  const latest = useRef({ fetch, params, options });
+  latest.current = { fetch, params, options };
+  const lastTrigger = useRef(trigger);
   useEffect(() => {
-    fetch(...params)
-      .then((obj) => {
-        setData(obj);
-        setError(undefined);
-      })
-      .catch(setError);
-  }, [JSON.stringify(params), trigger]);
-  if (error) {
-    console.error(error);
+    const { fetch, params, options } = latest.current;
+    // trigger 变化表示调用方要求无视缓存重新请求
+    const force = lastTrigger.current !== trigger;
+    lastTrigger.current = trigger;
+    queryCache.fetch(key, (signal) => fetch(...argsWithSignal(fetch, params, signal)), options, force).catch(() => undefined);
+  }, [key, trigger]);
+
+  // data 只返回当前参数的数据；参数变化后新数据到达之前算作加载中，不能沿用上一组参数的数据，
+  // 否则调用方会把上一个小节的内容当成当前小节的展示甚至保存
+  const settled = snapshot.updatedAt > 0;
+  const data = settled ? (snapshot.data as AsyncReturnType<T>) : initialData;
+
+  if (snapshot.error) {
+    console.error(snapshot.error);
     return {
       initialData,
       loading: false,
-      error: error,
+      error: snapshot.error,
     } as const;
-  }else if (data) {
+  } else if (settled || data) {
     return {
       initialData,
       loading: false,
-      data: data,
+      data: data as AsyncReturnType<T>,
       error: undefined,
     } as const;
   }
@@ -98,4 +121,4 @@ export function useAutoCache<T extends (...args: any) => Promise<any>>(
     initialData,
     loading: true
   } as const;
-}
\ No newline at end of file
+}
@@ -0,0 +1,13 @@
+import { useEffect, useRef } from "react";
+import { appEvents, type AppEvents } from "@/lib/app-events";
+
+/** 订阅应用事件；listener 总是用最新的一份，不需要 useCallback，也不会因为它变化而重新订阅 */
+export function useAppEvent<Name extends keyof AppEvents>(name: Name, listener: (data: AppEvents[Name]) => void) {
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => appEvents.on(name, (data) => listenerRef.current(data)), [name]);
+}
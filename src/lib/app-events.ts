@@ -0,0 +1,28 @@
+import Emittery from "emittery";
+import type { VideoContext } from "@/server/training-server";
+
+/**
+ * 应用内跨组件的事件，播放器、考试和 AI 对话之间通过它协作，互相不需要持有引用
+ * 组件里用 useAppEvent 订阅，卸载时自动取消
+ */
+export interface AppEvents {
+  /** 让页面上的视频播放器跳到指定秒数并播放 */
+  "video:seek": { seconds: number };
+  /** 把文字填进 AI 对话的输入框，带上 videoContext 时随下一条消息发送 */
+  "ai:ask": { text: string; videoContext?: VideoContext };
+  /** 为章节生成学习总结评语 */
+  "ai:learning-review": { sectionId: string };
+  /** 重新加载当前会话的对话历史 */
+  "ai:refresh-history": undefined;
+  /** 正式考试提交并判分完成 */
+  "exam:submitted": { sectionId: string; pass: boolean; score: number; userScore: number };
+  /** 章节考试通过，章节学习完成 */
+  "section:completed": { sectionId: string };
+}
+
+export const appEvents = new Emittery<AppEvents>();
+
+/** 发出事件，不等待订阅方处理完；订阅方抛出的错误只记录日志，不影响发出方 */
+export function emitAppEvent<Name extends keyof AppEvents>(name: Name, data: AppEvents[Name]) {
+  appEvents.emit(name, data).catch((error) => console.error(`处理事件 ${name} 失败:`, error));
+}
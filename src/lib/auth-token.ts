@@ -0,0 +1,89 @@
+/**
+ * 登录令牌的存储和刷新
+ * HttpClient 通过这里读取 access token，令牌过期时调用注册进来的刷新函数，
+ * 具体的登录接口由 containers/auth-middleware 负责，避免 lib 反向依赖 server。
+ */
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** access token 过期的时间戳（毫秒），后端没返回时为 undefined */
+  expiresAt?: number;
+}
+
+const TOKEN_STORAGE_KEY = "ala-training-token";
+
+export const tokenStore = {
+  get(): AuthTokens | null {
+    const value = localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (!value) {
+      return null;
+    }
+    try {
+      const tokens = JSON.parse(value) as AuthTokens;
+      return tokens.accessToken ? tokens : null;
+    } catch {
+      return null;
+    }
+  },
+  set(tokens: AuthTokens) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokens));
+  },
+  clear() {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  },
+};
+
+/** 需要携带在请求头上的鉴权信息，fetch 发起的流式请求也要用 */
+export function authHeaders(): Record<string, string> {
+  const tokens = tokenStore.get();
+  return tokens ? { Authorization: `Bearer ${tokens.accessToken}` } : {};
+}
+
+type TokenRefresher = (refreshToken: string) => Promise<AuthTokens>;
+
+let refresher: TokenRefresher | undefined;
+let refreshing: Promise<AuthTokens | null> | undefined;
+const unauthorizedListeners = new Set<() => void>();
+
+/** 注册刷新令牌的方法 */
+export function setTokenRefresher(fn: TokenRefresher) {
+  refresher = fn;
+}
+
+/** 刷新令牌彻底失败（需要重新登录）时通知，返回取消监听的函数 */
+export function onUnauthorized(listener: () => void) {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+/**
+ * 用 refresh token 换新的令牌，并发的 401 只会触发一次刷新
+ * @returns 新令牌；没有 refresh token 或刷新失败时返回 null，并清空本地令牌
+ */
+export function refreshTokens(): Promise<AuthTokens | null> {
+  if (refreshing) {
+    return refreshing;
+  }
+  const current = tokenStore.get();
+  if (!current?.refreshToken || !refresher) {
+    return Promise.resolve(null);
+  }
+  refreshing = refresher(current.refreshToken)
+    .then((tokens) => {
+      tokenStore.set(tokens);
+      return tokens;
+    })
+    .catch((error) => {
+      console.warn("刷新登录令牌失败", error);
+      tokenStore.clear();
+      unauthorizedListeners.forEach((listener) => listener());
+      return null;
+    })
+    .finally(() => {
+      refreshing = undefined;
+    });
+  return refreshing;
+}
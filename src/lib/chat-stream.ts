@@ -0,0 +1,217 @@
+import { z } from "zod";
+
+/**
+ * AI 对话流式协议
+ * 后端返回 `application/x-ndjson`（每行一个 JSON 事件）或 `text/event-stream`（`data: ` 开头的 JSON 事件）时按结构化事件解析；
+ * 旧接口返回纯文本时，每个文本块都当作一次 text-delta，调用方不需要区分两种接口。
+ */
+
+const chatSourceSchema = z.looseObject({
+  title: z.string().nullish().transform((value) => value ?? ""),
+  url: z.string(),
+});
+
+export type ChatSource = z.infer<typeof chatSourceSchema>;
+
+const chatUsageSchema = z.looseObject({
+  prompt_tokens: z.coerce.number().optional(),
+  completion_tokens: z.coerce.number().optional(),
+  total_tokens: z.coerce.number().optional(),
+});
+
+export type ChatUsage = z.infer<typeof chatUsageSchema>;
+
+const chatStreamEventSchema = z.discriminatedUnion("type", [
+  z.looseObject({ type: z.literal("text-delta"), delta: z.string() }),
+  z.looseObject({ type: z.literal("reasoning-delta"), delta: z.string() }),
+  z.looseObject({ type: z.literal("source"), source: chatSourceSchema }),
+  z.looseObject({ type: z.literal("usage"), usage: chatUsageSchema }),
+  z.looseObject({ type: z.literal("interaction_id"), interaction_id: z.string() }),
+  z.looseObject({ type: z.literal("error"), message: z.string() }),
+  z.looseObject({ type: z.literal("done") }),
+]);
+
+export type ChatStreamEvent = z.infer<typeof chatStreamEventSchema>;
+
+/** 流的编码方式，由响应的 Content-Type 决定 */
+export type ChatStreamFormat = "ndjson" | "sse" | "text";
+
+export function chatStreamFormatOf(contentType: string | null): ChatStreamFormat {
+  if (contentType?.includes("application/x-ndjson")) {
+    return "ndjson";
+  }
+  if (contentType?.includes("text/event-stream")) {
+    return "sse";
+  }
+  return "text";
+}
+
+/** SSE 的结束标记 */
+const SSE_DONE = "[DONE]";
+
+/** 解析一行结构化事件，空行、注释、未知类型返回 undefined */
+function parseEventLine(line: string, format: Exclude<ChatStreamFormat, "text">): ChatStreamEvent | undefined {
+  let payload = line.trim();
+  if (format === "sse") {
+    // 只关心 data 字段，event/id/retry 和以 : 开头的注释都忽略
+    if (!payload.startsWith("data:")) {
+      return undefined;
+    }
+    payload = payload.slice("data:".length).trim();
+    if (payload === SSE_DONE) {
+      return { type: "done" };
+    }
+  }
+  if (!payload) {
+    return undefined;
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(payload);
+  } catch {
+    console.warn("[chat-stream] 无法解析的事件:", payload);
+    return undefined;
+  }
+  const result = chatStreamEventSchema.safeParse(json);
+  if (!result.success) {
+    // 后端新增的事件类型前端暂不处理
+    console.warn("[chat-stream] 未知事件:", json);
+    return undefined;
+  }
+  return result.data;
+}
+
+/**
+ * 把解码后的文本块转换成事件流
+ * 结构化格式下事件可能跨块，按行缓存到完整后再解析；流结束时总会补一个 done 事件
+ */
+export async function* parseChatStream(
+  chunks: AsyncIterable<string>,
+  format: ChatStreamFormat,
+): AsyncGenerator<ChatStreamEvent> {
+  if (format === "text") {
+    for await (const chunk of chunks) {
+      if (chunk) {
+        yield { type: "text-delta", delta: chunk };
+      }
+    }
+    yield { type: "done" };
+    return;
+  }
+
+  let buffer = "";
+  let done = false;
+  const drain = function* (lines: string[]) {
+    for (const line of lines) {
+      const event = parseEventLine(line, format);
+      if (!event) {
+        continue;
+      }
+      yield event;
+      if (event.type === "done") {
+        done = true;
+        return;
+      }
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    yield* drain(lines);
+    if (done) {
+      return;
+    }
+  }
+  yield* drain([buffer]);
+  if (!done) {
+    yield { type: "done" };
+  }
+}
+
+/**
+ * 流式回答的渲染目标
+ * - 每帧最多渲染一次：几千 token 的回答，渲染次数不超过流式期间经过的帧数（结束时的 flush 额外算一次）
+ * - 收到的文字在 maxLagMs 内显示出来：渲染跟不上、主线程被长回答的 Markdown 解析卡住时延迟会超出
+ */
+export const STREAM_RENDER_TARGET = {
+  rendersPerFrame: 1,
+  maxLagMs: 100,
+};
+
+export interface StreamStatsReport {
+  events: number;
+  chars: number;
+  renders: number;
+  /** 流式期间经过的动画帧数，页面在后台时浏览器不出帧 */
+  frames: number;
+  seconds: number;
+  charsPerSecond: number;
+  /** 从收到片段到它被渲染的最长等待，页面在后台时的等待不计入 */
+  maxLagMs: number;
+  withinTarget: boolean;
+}
+
+/**
+ * 按 STREAM_RENDER_TARGET 衡量一次流式回答：统计渲染次数、经过的帧数和片段从收到到渲染的延迟
+ * 开发环境下在控制台输出，超出目标时给出警告
+ */
+export function createStreamStats() {
+  const startedAt = performance.now();
+  let events = 0;
+  let chars = 0;
+  let renders = 0;
+  let frames = 0;
+  let maxLagMs = 0;
+  /** 还没渲染的片段里最早收到的时间 */
+  let pendingSince: number | null = null;
+  let frame: number | null = requestAnimationFrame(function tick() {
+    frames++;
+    frame = requestAnimationFrame(tick);
+  });
+  return {
+    receive(event: ChatStreamEvent) {
+      events++;
+      if (event.type === "text-delta" || event.type === "reasoning-delta") {
+        chars += event.delta.length;
+      }
+      pendingSince ??= performance.now();
+    },
+    render() {
+      renders++;
+      if (pendingSince !== null && document.visibilityState === "visible") {
+        maxLagMs = Math.max(maxLagMs, performance.now() - pendingSince);
+      }
+      pendingSince = null;
+    },
+    report(): StreamStatsReport {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+        frame = null;
+      }
+      const seconds = (performance.now() - startedAt) / 1000;
+      const result = {
+        events,
+        chars,
+        renders,
+        frames,
+        seconds,
+        charsPerSecond: seconds > 0 ? Math.round(chars / seconds) : 0,
+        maxLagMs: Math.round(maxLagMs),
+        withinTarget: renders <= frames * STREAM_RENDER_TARGET.rendersPerFrame + 1 && maxLagMs <= STREAM_RENDER_TARGET.maxLagMs,
+      };
+      if (import.meta.env.DEV && events > 0) {
+        const summary =
+          `[chat-stream] ${events} 个事件，${chars} 字，${renders} 次渲染 / ${frames} 帧，用时 ${seconds.toFixed(1)} 秒，` +
+          `${result.charsPerSecond} 字/秒，最长延迟 ${result.maxLagMs}ms`;
+        if (result.withinTarget) {
+          console.debug(summary);
+        } else {
+          console.warn(`${summary}，超出目标（每帧最多 ${STREAM_RENDER_TARGET.rendersPerFrame} 次渲染，延迟不超过 ${STREAM_RENDER_TARGET.maxLagMs}ms）`);
+        }
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import type { SectionResponse } from "@/server/training-server";
+import { formatClock, parseTimestamp } from "@/lib/subtitle";
+import { emitAppEvent } from "@/lib/app-events";
+
+/**
+ * AI 回答里对课程内容的引用
+ * 后端在回答中插入 `[[类型:编号]]` 标记，说明前面这句话依据的是哪部分课程内容：
+ * - `[[subtitle:12]]` 视频字幕，编号是字幕的 seq
+ * - `[[point:2]]` 知识点，编号从 1 开始
+ * - `[[content:3]]` 知识点文案的第几段，编号从 1 开始，段落之间用空行分隔
+ * 标记在前端对照当前章节的数据解析，历史记录里的回答同样适用。
+ */
+
+export type CitationKind = "subtitle" | "point" | "content";
+
+export interface ResolvedCitation {
+  kind: CitationKind;
+  title: string;
+  quote: string;
+  /** 对应的视频时间（秒），字幕和带时间的知识点才有 */
+  start?: number;
+}
+
+const CITATION_PATTERN = /\[\[(subtitle|point|content):(\d+)\]\]/g;
+
+/** 流式输出时末尾可能只有半个标记，先去掉，等完整了再显示 */
+export function stripPartialCitation(text: string): string {
+  return text.replace(/\[\[[a-z]*(?::\d*)?\]?$/, "");
+}
+
+/** 去掉回答里的引用标记，用于搜索和摘要这类只关心正文的地方 */
+export function stripCitations(text: string): string {
+  return text.replace(CITATION_PATTERN, "");
+}
+
+/**
+ * 把引用标记换成 `[序号]`，用于导出、打印这类没有章节数据可对照的纯文本场景
+ * 序号和对话里显示的一致，按第一次出现的顺序编号
+ */
+export function renderCitationsAsText(text: string): string {
+  const numbers = citationNumbers(text);
+  return text.replace(CITATION_PATTERN, (_, kind: string, ref: string) => `[${numbers.get(`${kind}:${ref}`)}]`);
+}
+
+/** 知识点文案按空行分段 */
+function contentParagraphs(content: string) {
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+/** 在章节数据里找到引用的内容，找不到时返回 undefined */
+export function resolveCitation(section: SectionResponse, kind: string, ref: number): ResolvedCitation | undefined {
+  if (kind === "subtitle") {
+    const subtitle = section.video_subtitles?.find((item) => item.seq === ref);
+    if (!subtitle) return undefined;
+    const start = parseTimestamp(subtitle.start);
+    return { kind, title: `视频字幕 ${formatClock(start)}`, quote: subtitle.text, start };
+  }
+  if (kind === "point") {
+    const point = section.knowledge_points?.key_points?.[ref - 1];
+    if (!point) return undefined;
+    return { kind, title: point.title, quote: point.description, start: point.time ? parseTimestamp(point.time) : undefined };
+  }
+  if (kind === "content") {
+    const paragraph = contentParagraphs(section.knowledge_content ?? "")[ref - 1];
+    if (!paragraph) return undefined;
+    return { kind, title: `${section.title} · 知识点文案第 ${ref} 段`, quote: paragraph };
+  }
+  return undefined;
+}
+
+/** remark 语法树里用到的最小结构 */
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: { hName?: string; hProperties?: Record<string, string | number> };
+}
+
+function splitCitations(text: string, numbers: Map<string, number>): MarkdownNode[] {
+  const nodes: MarkdownNode[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) {
+      nodes.push({ type: "text", value: text.slice(cursor, index) });
+    }
+    const key = `${match[1]}:${match[2]}`;
+    if (!numbers.has(key)) {
+      numbers.set(key, numbers.size + 1);
+    }
+    nodes.push({
+      type: "citation",
+      children: [],
+      data: { hName: "cite", hProperties: { dataKind: match[1], dataRef: Number(match[2]), dataNumber: numbers.get(key)! } },
+    });
+    cursor = index + match[0].length;
+  }
+  if (cursor === 0) {
+    return [{ type: "text", value: text }];
+  }
+  if (cursor < text.length) {
+    nodes.push({ type: "text", value: text.slice(cursor) });
+  }
+  return nodes;
+}
+
+/** 按在整段回答里第一次出现的顺序给引用编号，回答分块渲染时各块共用 */
+export function citationNumbers(text: string): Map<string, number> {
+  const numbers = new Map<string, number>();
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const key = `${match[1]}:${match[2]}`;
+    if (!numbers.has(key)) {
+      numbers.set(key, numbers.size + 1);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * remark 插件：把文本里的引用标记换成 `<cite>` 元素，交给 Markdown 渲染组件里的 cite 处理
+ * 同一回答里重复引用同一处内容时使用同一个序号；代码块里的文本不处理
+ * 传入 numbers 时使用整段回答的编号，否则按这棵语法树单独编号
+ */
+export function remarkCitations(options: { numbers?: Map<string, number> } = {}) {
+  return (tree: MarkdownNode) => {
+    const numbers = new Map(options.numbers);
+    const visit = (node: MarkdownNode) => {
+      if (!node.children) return;
+      node.children = node.children.flatMap((child) => {
+        if (child.type === "text" && child.value) {
+          return splitCitations(child.value, numbers);
+        }
+        visit(child);
+        return [child];
+      });
+    };
+    visit(tree);
+  };
+}
+
+/** 让页面上的视频播放器跳到指定秒数并播放 */
+export function seekVideo(seconds: number) {
+  emitAppEvent("video:seek", { seconds });
+}
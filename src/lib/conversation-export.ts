@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { sessionHistorySchema } from "@/server/training-schema";
+import { renderCitationsAsText } from "@/lib/citation";
+import type { SessionHistoryResponse } from "@/server/training-server";
+
+/**
+ * AI 对话导出
+ * 导出的内容来自后端保存的会话历史，Markdown 中 AI 回答除引用标记换成序号外原样保留，公式和代码块不做转换；
+ * JSON 存档就是带版本号的会话历史，可以在对话存档页重新导入查看。
+ */
+
+const ARCHIVE_VERSION = 1;
+
+const conversationArchiveSchema = sessionHistorySchema.extend({
+  version: z.literal(ARCHIVE_VERSION),
+  exported_at: z.coerce.date(),
+});
+
+export type ConversationArchive = SessionHistoryResponse & {
+  version: typeof ARCHIVE_VERSION;
+  exported_at: Date;
+};
+
+export function toConversationArchive(history: SessionHistoryResponse): ConversationArchive {
+  return { ...history, version: ARCHIVE_VERSION, exported_at: new Date() };
+}
+
+/** 解析导入的 JSON 存档，格式不对时抛出带提示的 Error */
+export function parseConversationArchive(text: string): ConversationArchive {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("文件不是有效的 JSON");
+  }
+  const result = conversationArchiveSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error("不是对话存档文件，或存档版本不受支持");
+  }
+  return result.data as ConversationArchive;
+}
+
+/** 存档标题，用于 Markdown 标题、打印页标题和文件名 */
+export function conversationTitle(archive: SessionHistoryResponse) {
+  const sectionTitle = archive.history.find((item) => item.section_title)?.section_title;
+  return sectionTitle ? `${sectionTitle} · AI 对话笔记` : "AI 对话笔记";
+}
+
+/** 导出文件名，不含扩展名 */
+export function conversationFileName(archive: SessionHistoryResponse) {
+  const date = archive.history[0]?.query_time ?? new Date();
+  return `${conversationTitle(archive).replace(/[\\/:*?"<>|·\s]+/g, "_")}_${date.toISOString().slice(0, 10)}`;
+}
+
+export function formatConversationTime(date: Date) {
+  return date.toLocaleString("zh-CN", { hour12: false });
+}
+
+export function toConversationMarkdown(archive: SessionHistoryResponse): string {
+  const lines = [`# ${conversationTitle(archive)}`, "", `> 共 ${archive.history.length} 轮对话，导出于 ${formatConversationTime(new Date())}`, ""];
+  archive.history.forEach((item, index) => {
+    lines.push(
+      `## ${index + 1}. ${formatConversationTime(item.query_time)}`,
+      "",
+      `**${item.user_name || "我"}：**`,
+      "",
+      item.user_message,
+      "",
+      ...(item.attachments ?? []).map((file) => `${file.type.startsWith("image/") ? "!" : ""}[${file.name}](${file.url})`),
+      ...(item.attachments?.length ? [""] : []),
+      `**${item.persona_name || "AI"}：**`,
+      "",
+      renderCitationsAsText(item.ai_response),
+      "",
+      "---",
+      "",
+    );
+  });
+  return lines.join("\n");
+}
+
+export function toConversationJson(archive: SessionHistoryResponse): string {
+  return JSON.stringify(toConversationArchive(archive), null, 2);
+}
@@ -0,0 +1,109 @@
+/**
+ * AI 对话的本地全文索引，存放在 IndexedDB 中
+ * 只负责存取，和后端的同步由对话搜索页完成；数据和具体用户相关，退出登录时清空
+ */
+
+/** 索引中的一轮对话，字段和后端的 HistoryMessage 保持一致，另外记录所属会话和章节 */
+export interface IndexedMessage {
+  interaction_id: string;
+  user_id: string;
+  session_id: string;
+  section_id?: string;
+  course_id?: string;
+  course_name?: string;
+  section_title?: string;
+  persona_name?: string;
+  user_message: string;
+  ai_response: string;
+  /** 时间戳（毫秒），IndexedDB 里不存 Date 方便比较 */
+  query_time: number;
+}
+
+/** 已经索引过的会话，last_interaction 没变时不需要重新拉取历史 */
+export interface IndexedSession {
+  session_id: string;
+  user_id: string;
+  last_interaction: number;
+}
+
+const DB_NAME = "ai-conversation-index";
+const DB_VERSION = 1;
+const MESSAGES = "messages";
+const SESSIONS = "sessions";
+
+let opening: Promise<IDBDatabase> | undefined;
+
+function openDb() {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const messages = db.createObjectStore(MESSAGES, { keyPath: "interaction_id" });
+      messages.createIndex("user_id", "user_id");
+      messages.createIndex("session_id", "session_id");
+      const sessions = db.createObjectStore(SESSIONS, { keyPath: "session_id" });
+      sessions.createIndex("user_id", "user_id");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      opening = undefined;
+      reject(request.error);
+    };
+  });
+  return opening;
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function done(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function deleteSessionMessages(store: IDBObjectStore, sessionId: string) {
+  const keys = await promisify(store.index("session_id").getAllKeys(sessionId));
+  keys.forEach((key) => store.delete(key));
+}
+
+export const conversationIndex = {
+  async getSessions(userId: string): Promise<IndexedSession[]> {
+    const db = await openDb();
+    return promisify(db.transaction(SESSIONS).objectStore(SESSIONS).index("user_id").getAll(userId));
+  },
+  async getMessages(userId: string): Promise<IndexedMessage[]> {
+    const db = await openDb();
+    return promisify(db.transaction(MESSAGES).objectStore(MESSAGES).index("user_id").getAll(userId));
+  },
+  /** 用最新的历史替换一个会话的全部索引 */
+  async putSession(session: IndexedSession, messages: IndexedMessage[]) {
+    const db = await openDb();
+    const transaction = db.transaction([MESSAGES, SESSIONS], "readwrite");
+    const store = transaction.objectStore(MESSAGES);
+    await deleteSessionMessages(store, session.session_id);
+    messages.forEach((message) => store.put(message));
+    transaction.objectStore(SESSIONS).put(session);
+    await done(transaction);
+  },
+  async removeSession(sessionId: string) {
+    const db = await openDb();
+    const transaction = db.transaction([MESSAGES, SESSIONS], "readwrite");
+    await deleteSessionMessages(transaction.objectStore(MESSAGES), sessionId);
+    transaction.objectStore(SESSIONS).delete(sessionId);
+    await done(transaction);
+  },
+  async clear() {
+    const db = await openDb();
+    const transaction = db.transaction([MESSAGES, SESSIONS], "readwrite");
+    transaction.objectStore(MESSAGES).clear();
+    transaction.objectStore(SESSIONS).clear();
+    await done(transaction);
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * 把同一帧内的多次更新合并成一次处理
+ * 流式回答每个片段都 setState 时，长回答会在一帧里触发几十次渲染；合并后每帧最多渲染一次
+ * 页面在后台时浏览器会暂停动画帧，片段先攒着，回到前台或调用 flush 时一起处理
+ */
+export function createFrameBatch<T>(handle: (items: T[]) => void) {
+  let pending: T[] = [];
+  let frame: number | null = null;
+
+  const run = () => {
+    frame = null;
+    if (pending.length === 0) return;
+    const items = pending;
+    pending = [];
+    handle(items);
+  };
+
+  return {
+    push(item: T) {
+      pending.push(item);
+      if (frame === null) {
+        frame = requestAnimationFrame(run);
+      }
+    },
+    /** 立即处理还没处理的部分，流结束或出错时调用，保证后续的更新排在它们之后 */
+    flush() {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+      run();
+    },
+  };
+}
@@ -1,47 +1,143 @@
-import Axios from "axios";
+import Axios, { isAxiosError } from "axios";
 import type { AxiosResponse, AxiosRequestConfig } from "axios";
+import { errorFromStatusBody, toTrainingApiError, type TrainingApiError } from "./http-error";
+import { authHeaders, refreshTokens } from "./auth-token";
 
 function rejectedInterceptor(error: any) {
-  // do some things.
-  // console.error(error);
-  throw error;
+  // 统一转换为 TrainingApiError，调用方不再需要自己解析 error.response
+  throw toTrainingApiError(error);
+}
+
+/** access token 过期时刷新一次令牌并重发请求，仍然失败再按普通错误处理 */
+async function unauthorizedInterceptor(error: unknown) {
+  if (isAxiosError(error) && error.response?.status === 401 && error.config) {
+    const config = error.config as typeof error.config & HttpRequestConfig & { authRetried?: boolean };
+    if (!config.skipAuthRefresh && !config.authRetried) {
+      const tokens = await refreshTokens();
+      if (tokens) {
+        config.authRetried = true;
+        config.headers.set("Authorization", `Bearer ${tokens.accessToken}`);
+        return Axios(config);
+      }
+    }
+  }
+  return rejectedInterceptor(error);
 }
 
 Axios.interceptors.request.use(async (arc) => {
+  const headers = authHeaders();
+  if (headers.Authorization && !arc.headers.has("Authorization")) {
+    arc.headers.set("Authorization", headers.Authorization);
+  }
   return arc;
 }, rejectedInterceptor);
 
 Axios.interceptors.response.use(async (ar) => {
+  // 后端用 Status<T>.success 表示业务失败，HTTP 状态码可能仍是 200
+  const businessError = errorFromStatusBody(ar.data);
+  if (businessError) {
+    throw businessError;
+  }
   return ar;
-}, rejectedInterceptor);
+}, unauthorizedInterceptor);
+
+/** 重试策略，只应该用在幂等请求上（查询类接口） */
+export interface RetryOptions {
+  /** 最多重试次数，不含第一次请求 */
+  retries: number;
+  /** 第一次重试前的等待时间（毫秒） */
+  delay?: number;
+  /** 每次重试等待时间的倍数，默认 2 */
+  factor?: number;
+  /** 判断某个错误是否值得重试，默认只重试网络、超时和 5xx */
+  retryOn?: (error: TrainingApiError) => boolean;
+}
+
+/** 查询类接口默认使用的重试策略：300ms、600ms 后各重试一次 */
+export const idempotentRetry: RetryOptions = {
+  retries: 2,
+  delay: 300,
+};
+
+export interface HttpRequestConfig extends AxiosRequestConfig {
+  /** 失败后的重试策略，不传则不重试 */
+  retry?: RetryOptions;
+  /** 401 时不尝试刷新令牌，登录、刷新令牌等接口自身使用 */
+  skipAuthRefresh?: boolean;
+}
+
+/** 拆出重试策略，剩下的原样交给 Axios */
+function resolveConfig(config?: HttpRequestConfig) {
+  const { retry, ...rest } = config ?? {};
+  return { retry, config: rest };
+}
+
+/** 只有网络、超时和服务端错误值得重试，被取消的请求不重试 */
+function isTransientError(error: TrainingApiError) {
+  return error.kind === "network" || error.kind === "timeout" || error.kind === "server";
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** 按重试策略执行请求，等待时间按 delay * factor^n 递增 */
+async function withRetry<T>(request: () => Promise<T>, retry?: RetryOptions, signal?: AxiosRequestConfig["signal"]): Promise<T> {
+  const retries = retry?.retries ?? 0;
+  const retryOn = retry?.retryOn ?? isTransientError;
+  let wait = retry?.delay ?? 300;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (e) {
+      const error = toTrainingApiError(e);
+      if (attempt >= retries || signal?.aborted || !retryOn(error)) {
+        throw error;
+      }
+      await sleep(wait);
+      wait *= retry?.factor ?? 2;
+    }
+  }
+}
 
 /**
- * 隔离Axios，让程序未来可以容易更换网络库，也方便未来做统一鉴权功能
+ * 隔离Axios，让程序未来可以容易更换网络库
+ * 统一鉴权：请求自动携带 access token，401 时自动刷新令牌
  */
 export class HttpClient {
-  async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    return Axios.get<T>(url, config);
+  async get<T = any>(url: string, config?: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const { retry, config: rest } = resolveConfig(config);
+    return withRetry(() => Axios.get<T>(url, rest), retry, rest.signal);
   }
 
-  async post<T = any, R = any>(url: string, data?: R, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    return Axios.post<T>(url, data, config);
+  async post<T = any, R = any>(url: string, data?: R, config?: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const { retry, config: rest } = resolveConfig(config);
+    return withRetry(() => Axios.post<T>(url, data, rest), retry, rest.signal);
   }
 
-  async put<T = any, R = any>(url: string, data?: R, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    return Axios.put<T>(url, data, config);
+  async put<T = any, R = any>(url: string, data?: R, config?: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const { retry, config: rest } = resolveConfig(config);
+    return withRetry(() => Axios.put<T>(url, data, rest), retry, rest.signal);
   }
 
-  async delete(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse> {
-    return Axios.delete(url, config);
+  async delete(url: string, config?: HttpRequestConfig): Promise<AxiosResponse> {
+    const { retry, config: rest } = resolveConfig(config);
+    return withRetry(() => Axios.delete(url, rest), retry, rest.signal);
   }
 
-  async download<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    return Axios({
-      url,
-      method: "GET",
-      responseType: "blob",
-      ...config,
-    });
+  async download<T = any>(url: string, config?: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const { retry, config: rest } = resolveConfig(config);
+    return withRetry(
+      () =>
+        Axios({
+          url,
+          method: "GET",
+          responseType: "blob",
+          ...rest,
+        }),
+      retry,
+      rest.signal,
+    );
   }
 
   async all<T = any>(request: any[]): Promise<AxiosResponse<T>[]> {
@@ -0,0 +1,185 @@
+import { isAxiosError } from "axios";
+
+/**
+ * 技能培训后端接口错误的分类
+ * - network: 网络不通、跨域失败等没有收到响应的情况
+ * - timeout: 请求超时
+ * - cancelled: 请求被主动取消，例如用户停止生成、参数变化后旧请求被中止；不重试，也不需要提示用户
+ * - validation: 4xx，请求参数有误或无权限
+ * - server: 5xx，后端异常
+ * - business: HTTP 正常但 `Status<T>.success === false`
+ * - schema: 响应结构和前端约定的不一致
+ */
+export type TrainingApiErrorKind = "network" | "timeout" | "cancelled" | "validation" | "server" | "business" | "schema";
+
+/** 后端错误响应体中可能携带的字段 */
+interface ErrorPayload {
+  success?: boolean;
+  statusCode?: number;
+  message?: string;
+  details?: unknown;
+}
+
+/** 所有后端接口错误的基类，页面只需要 `instanceof TrainingApiError` 并展示 `message` */
+export class TrainingApiError extends Error {
+  readonly kind: TrainingApiErrorKind;
+  /** HTTP 状态码，没有收到响应时为 undefined */
+  readonly status?: number;
+  /** 后端返回的 details 字段，结构由接口决定 */
+  readonly details?: unknown;
+
+  constructor(kind: TrainingApiErrorKind, message: string, options: { status?: number; details?: unknown; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "TrainingApiError";
+    this.kind = kind;
+    this.status = options.status;
+    this.details = options.details;
+  }
+}
+
+export class NetworkError extends TrainingApiError {
+  constructor(cause?: unknown) {
+    super("network", "网络连接失败，请检查网络后重试", { cause });
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends TrainingApiError {
+  constructor(cause?: unknown) {
+    super("timeout", "请求超时，请稍后重试", { cause });
+    this.name = "TimeoutError";
+  }
+}
+
+export class CancelledError extends TrainingApiError {
+  constructor(cause?: unknown) {
+    super("cancelled", "请求已取消", { cause });
+    this.name = "CancelledError";
+  }
+}
+
+/** 请求是否被主动取消，页面展示错误时应当跳过 */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof TrainingApiError && error.kind === "cancelled";
+}
+
+/** 4xx 错误，通常是参数校验失败 */
+export class ValidationError extends TrainingApiError {
+  constructor(status: number, message: string, details?: unknown, cause?: unknown) {
+    super("validation", message, { status, details, cause });
+    this.name = "ValidationError";
+  }
+}
+
+/** 5xx 错误 */
+export class ServerError extends TrainingApiError {
+  constructor(status: number, message: string, details?: unknown, cause?: unknown) {
+    super("server", message, { status, details, cause });
+    this.name = "ServerError";
+  }
+}
+
+/** HTTP 请求成功，但后端在 `Status<T>` 中返回了 `success: false` */
+export class BusinessError extends TrainingApiError {
+  constructor(status: number | undefined, message: string, details?: unknown) {
+    super("business", message, { status, details });
+    this.name = "BusinessError";
+  }
+}
+
+/** 后端响应结构与前端 zod schema 不一致，一般是后端字段发生了变更 */
+export class SchemaMismatchError extends TrainingApiError {
+  readonly endpoint: string;
+  /** zod 给出的具体不匹配项 */
+  readonly issues: ReadonlyArray<{ path: PropertyKey[]; message: string }>;
+
+  constructor(endpoint: string, issues: ReadonlyArray<{ path: PropertyKey[]; message: string }>) {
+    const fields = issues.map((issue) => issue.path.map(String).join(".") || "(root)").join(", ");
+    super("schema", `接口 ${endpoint} 返回的数据格式不正确：${fields}`, { details: issues });
+    this.name = "SchemaMismatchError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+function isErrorPayload(data: unknown): data is ErrorPayload {
+  return !!data && typeof data === "object" && !(data instanceof Blob);
+}
+
+/** 从后端错误响应体中取出最适合展示给用户的文案，details 是字符串时优先 */
+function messageOf(data: unknown, fallback: string) {
+  if (typeof data === "string" && data.trim()) {
+    return data;
+  }
+  if (isErrorPayload(data)) {
+    if (typeof data.details === "string" && data.details.trim()) {
+      return data.details;
+    }
+    if (typeof data.message === "string" && data.message.trim()) {
+      return data.message;
+    }
+  }
+  return fallback;
+}
+
+/** 根据 HTTP 状态码和响应体构造对应的错误 */
+export function errorFromStatus(status: number, data: unknown, cause?: unknown): TrainingApiError {
+  const details = isErrorPayload(data) ? data.details : undefined;
+  if (status >= 500) {
+    return new ServerError(status, messageOf(data, "服务器开小差了，请稍后重试"), details, cause);
+  }
+  return new ValidationError(status, messageOf(data, "请求参数有误"), details, cause);
+}
+
+/** 检查 `Status<T>`，`success: false` 时返回 BusinessError */
+export function errorFromStatusBody(data: unknown): BusinessError | undefined {
+  if (isErrorPayload(data) && data.success === false) {
+    return new BusinessError(data.statusCode, messageOf(data, "操作失败"), data.details);
+  }
+}
+
+/** 把任意异常（Axios 错误、fetch 错误等）统一转换为 TrainingApiError */
+export function toTrainingApiError(error: unknown): TrainingApiError {
+  if (error instanceof TrainingApiError) {
+    return error;
+  }
+  if (isAxiosError(error)) {
+    if (error.code === "ERR_CANCELED") {
+      return new CancelledError(error);
+    }
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new TimeoutError(error);
+    }
+    if (!error.response) {
+      return new NetworkError(error);
+    }
+    return errorFromStatus(error.response.status, error.response.data, error);
+  }
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return new CancelledError(error);
+  }
+  if (error instanceof DOMException && error.name === "TimeoutError") {
+    return new TimeoutError(error);
+  }
+  // fetch 在网络不通时抛出 TypeError
+  if (error instanceof TypeError) {
+    return new NetworkError(error);
+  }
+  return new TrainingApiError("server", error instanceof Error ? error.message : String(error), { cause: error });
+}
+
+/** 把 fetch 的非 2xx 响应转换为 TrainingApiError，用于流式接口 */
+export async function errorFromFetchResponse(response: Response): Promise<TrainingApiError> {
+  let data: unknown;
+  try {
+    const text = await response.text();
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  } catch {
+    data = undefined;
+  }
+  return errorFromStatus(response.status, data);
+}
@@ -0,0 +1,48 @@
+/**
+ * 把 Markdown 按顶层块切开，流式渲染时已经完整的块不再重新解析
+ * 在代码块、数学公式块之外的空行处切分；空行后是缩进内容时属于上一个列表项，不切开
+ * 切开后每块单独解析，跨块的引用式链接和脚注不再生效，AI 回答里基本用不到
+ */
+export function splitMarkdownBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  const lines = text.split("\n");
+  let current: string[] = [];
+  /** 当前所在的代码块或公式块的结束标记 */
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current.some((line) => line.trim())) {
+      blocks.push(current.join("\n"));
+    }
+    current = [];
+  };
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (fence) {
+      current.push(line);
+      if (trimmed.startsWith(fence)) fence = null;
+      return;
+    }
+    const opening = trimmed.match(/^(`{3,}|~{3,}|\$\$)/);
+    if (opening) {
+      current.push(line);
+      // 单行的 $$...$$ 不是块
+      if (!(opening[1] === "$$" && trimmed.length > 2 && trimmed.endsWith("$$"))) fence = opening[1];
+      return;
+    }
+    if (!trimmed) {
+      let next = index + 1;
+      while (next < lines.length && !lines[next].trim()) next++;
+      if (next < lines.length && /^\s/.test(lines[next])) {
+        current.push(line);
+        return;
+      }
+      flush();
+      return;
+    }
+    current.push(line);
+  });
+  flush();
+  return blocks;
+}
@@ -0,0 +1,164 @@
+import { isCancelledError } from "./http-error";
+
+/** 缓存条目对外暴露的状态，每次变化都会替换成新对象，方便 React 比较 */
+export interface QuerySnapshot<T = unknown> {
+  data?: T;
+  error?: Error;
+  /** 是否有请求正在进行（包括后台刷新） */
+  fetching: boolean;
+  /** 最近一次成功获取数据的时间戳 */
+  updatedAt: number;
+}
+
+export interface QueryOptions {
+  /** 数据在多长时间内视为新鲜，不会重新请求（毫秒） */
+  staleTime?: number;
+  /** 缓存标签，通过 invalidateQueries(tag) 让相关缓存失效 */
+  tags?: string[];
+}
+
+interface CacheEntry {
+  key: string;
+  snapshot: QuerySnapshot;
+  tags: Set<string>;
+  listeners: Set<() => void>;
+  /** 正在进行的请求，用于合并重复请求 */
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  /** 被标记失效后，下一次使用时无视 staleTime 重新请求 */
+  invalidated: boolean;
+  fetcher?: (signal: AbortSignal) => Promise<unknown>;
+}
+
+export const DEFAULT_STALE_TIME = 5_000;
+
+const EMPTY_SNAPSHOT: QuerySnapshot = { fetching: false, updatedAt: 0 };
+
+/**
+ * 全局的查询缓存
+ * - 相同 key 的请求只会发出一次，其余调用方共享结果
+ * - 数据过期后先返回旧数据，同时在后台重新请求（stale-while-revalidate）
+ * - 通过标签批量失效，例如提交测验后让 `exercise-results:{sectionId}` 重新加载
+ * - 一个 key 没有任何订阅者时，中止它正在进行的请求
+ */
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+
+  private entry(key: string) {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { key, snapshot: EMPTY_SNAPSHOT, tags: new Set(), listeners: new Set(), invalidated: false };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private update(entry: CacheEntry, patch: Partial<QuerySnapshot>) {
+    entry.snapshot = { ...entry.snapshot, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  getSnapshot(key: string): QuerySnapshot {
+    return this.entries.get(key)?.snapshot ?? EMPTY_SNAPSHOT;
+  }
+
+  subscribe(key: string, listener: () => void) {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+      // 参数变化或组件卸载后没人再关心这个请求了，推迟一下是为了兼容 StrictMode 的重复挂载
+      setTimeout(() => {
+        if (entry.listeners.size === 0) {
+          entry.controller?.abort();
+        }
+      });
+    };
+  }
+
+  /**
+   * 获取数据，数据新鲜时直接返回缓存，否则发起请求（或复用进行中的请求）
+   * @param fetcher 收到的 signal 在请求被取代或没人再订阅时中止，需要一直传到 HTTP 请求上
+   * @param force 无视 staleTime 强制重新请求
+   */
+  fetch<T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>, options: QueryOptions = {}, force = false): Promise<T> {
+    const entry = this.entry(key);
+    entry.fetcher = fetcher;
+    options.tags?.forEach((tag) => entry.tags.add(tag));
+
+    const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+    const fresh = entry.snapshot.updatedAt > 0 && Date.now() - entry.snapshot.updatedAt < staleTime;
+    if (fresh && !force && !entry.invalidated) {
+      return Promise.resolve(entry.snapshot.data as T);
+    }
+    if (entry.promise && !entry.controller?.signal.aborted && !force) {
+      return entry.promise as Promise<T>;
+    }
+
+    entry.controller?.abort();
+    const controller = new AbortController();
+    entry.controller = controller;
+    entry.invalidated = false;
+    this.update(entry, { fetching: true });
+
+    const promise = fetcher(controller.signal).then(
+      (data) => {
+        if (entry.controller === controller) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+          this.update(entry, { data, error: undefined, fetching: false, updatedAt: Date.now() });
+        }
+        return data;
+      },
+      (error: Error) => {
+        if (entry.controller === controller) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+          // 被中止的请求不算错误，保留原有数据
+          this.update(entry, controller.signal.aborted || isCancelledError(error) ? { fetching: false } : { error, fetching: false });
+        }
+        throw error;
+      },
+    );
+    entry.promise = promise;
+    return promise;
+  }
+
+  /**
+   * 让带有指定标签的缓存失效，正在被使用的会立刻在后台重新请求
+   */
+  invalidate(...tags: string[]) {
+    for (const entry of this.entries.values()) {
+      if (!tags.some((tag) => entry.tags.has(tag))) {
+        continue;
+      }
+      entry.invalidated = true;
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher, {}, true).catch(() => undefined);
+      }
+    }
+  }
+}
+
+export const queryCache = new QueryCache();
+
+/** 让带有指定标签的缓存失效，例如 `invalidateQueries("exercise-results:" + sectionId)` */
+export function invalidateQueries(...tags: string[]) {
+  queryCache.invalidate(...tags);
+}
+
+const fetcherIds = new WeakMap<object, number>();
+let nextFetcherId = 1;
+
+/**
+ * 根据请求函数和参数生成缓存 key
+ * 请求函数按引用区分，所以不要传每次渲染都会重新创建的函数（比如 `.bind()` 的结果）
+ */
+export function queryKeyOf(fetcher: object, params: unknown[]) {
+  let id = fetcherIds.get(fetcher);
+  if (!id) {
+    id = nextFetcherId++;
+    fetcherIds.set(fetcher, id);
+  }
+  return `${id}:${JSON.stringify(params)}`;
+}
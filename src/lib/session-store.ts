@@ -0,0 +1,36 @@
+/**
+ * 记住每一节最后使用的 AI 会话，重新进入这一节时继续上次的对话
+ * 和具体用户相关，退出登录时由 auth-middleware 按前缀清理
+ */
+
+export const LAST_SESSION_STORAGE_KEY = "ai-last-session";
+
+/** 日常对话没有 sectionId，单独占一个位置 */
+const DAILY_SECTION = "daily";
+
+function read(): Record<string, string> {
+  try {
+    const value = JSON.parse(localStorage.getItem(LAST_SESSION_STORAGE_KEY) ?? "{}");
+    return value && typeof value === "object" ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+function write(sessions: Record<string, string>) {
+  localStorage.setItem(LAST_SESSION_STORAGE_KEY, JSON.stringify(sessions));
+}
+
+export const lastSessionStore = {
+  get(sectionId?: string): string | null {
+    return read()[sectionId || DAILY_SECTION] ?? null;
+  },
+  set(sectionId: string | undefined, sessionId: string) {
+    write({ ...read(), [sectionId || DAILY_SECTION]: sessionId });
+  },
+  /** 会话被删除后，忘掉所有指向它的记录 */
+  forget(sessionId: string) {
+    const sessions = read();
+    write(Object.fromEntries(Object.entries(sessions).filter(([, id]) => id !== sessionId)));
+  },
+};
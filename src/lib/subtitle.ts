@@ -0,0 +1,215 @@
+import type { Subtitle } from "@/server/training-server";
+
+/**
+ * 字幕的解析、导出和编辑工具
+ * 后端保存的是 SRT 风格的时间戳 `HH:MM:SS,mmm`，导入 WebVTT 时统一转换成这种格式。
+ * 编辑操作都返回新数组，并重新编号 seq。
+ */
+
+/** 解析 `HH:MM:SS,mmm`、`HH:MM:SS.mmm` 或 WebVTT 省略小时的 `MM:SS.mmm`，返回秒数 */
+export function parseTimestamp(timestamp: string): number {
+  const [time, milliseconds = "0"] = timestamp.trim().split(/[,.]/);
+  const parts = time.split(":").map(Number);
+  while (parts.length < 3) {
+    parts.unshift(0);
+  }
+  const [hours, minutes, seconds] = parts;
+  const result = hours * 3600 + minutes * 60 + seconds + Number(milliseconds.padEnd(3, "0").slice(0, 3)) / 1000;
+  return Number.isFinite(result) ? result : 0;
+}
+
+/** 把秒数格式化成 `HH:MM:SS,mmm`，WebVTT 用 `.` 作为毫秒分隔符 */
+export function formatTimestamp(totalSeconds: number, separator: "," | "." = ","): string {
+  const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+  const pad = (n: number, length = 2) => n.toString().padStart(length, "0");
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const seconds = Math.floor((totalMs % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+/** 格式化成播放器里显示的 `MM:SS`，超过一小时时为 `H:MM:SS`，知识点的时间也用这种格式 */
+export function formatClock(totalSeconds: number): string {
+  const total = Math.max(0, Math.floor(totalSeconds));
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const clock = `${pad(minutes)}:${pad(total % 60)}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+}
+
+/** 字幕时间范围 */
+export function cueRange(subtitle: Subtitle) {
+  return { start: parseTimestamp(subtitle.start), end: parseTimestamp(subtitle.end) };
+}
+
+/** 按顺序重新编号 */
+export function renumber(subtitles: Subtitle[]): Subtitle[] {
+  return subtitles.map((subtitle, index) => ({ ...subtitle, seq: index + 1 }));
+}
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+/** 按空行切分字幕块，取出时间行之后的文本，SRT 和 WebVTT 共用 */
+function parseCueBlocks(text: string): Subtitle[] {
+  const subtitles: Subtitle[] = [];
+  const blocks = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1) {
+      // WEBVTT 头、NOTE、STYLE 等块没有时间行
+      continue;
+    }
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const cueText = lines.slice(timingIndex + 1).join("\n").trim();
+    if (!cueText) {
+      continue;
+    }
+    subtitles.push({
+      seq: subtitles.length + 1,
+      start: formatTimestamp(parseTimestamp(start)),
+      end: formatTimestamp(parseTimestamp(end)),
+      text: cueText,
+    });
+  }
+  return subtitles;
+}
+
+/** 解析 SRT 文件内容 */
+export function parseSrt(text: string): Subtitle[] {
+  return parseCueBlocks(text);
+}
+
+/** 解析 WebVTT 文件内容，去掉 `<c>`、`<v 讲师>` 之类的行内标签 */
+export function parseVtt(text: string): Subtitle[] {
+  return parseCueBlocks(text).map((subtitle) => ({
+    ...subtitle,
+    text: subtitle.text.replace(/<[^>]+>/g, ""),
+  }));
+}
+
+/** 根据文件名判断格式并解析 */
+export function parseSubtitleFile(fileName: string, text: string): Subtitle[] {
+  return /\.vtt$/i.test(fileName) || /^\uFEFF?WEBVTT/.test(text) ? parseVtt(text) : parseSrt(text);
+}
+
+/** 导出为 SRT 文本 */
+export function toSrt(subtitles: Subtitle[]): string {
+  return renumber(subtitles)
+    .map((subtitle) => `${subtitle.seq}\n${subtitle.start} --> ${subtitle.end}\n${subtitle.text}\n`)
+    .join("\n");
+}
+
+/** 导出为 WebVTT 文本 */
+export function toVtt(subtitles: Subtitle[]): string {
+  const cues = subtitles.map((subtitle) => {
+    const { start, end } = cueRange(subtitle);
+    return `${formatTimestamp(start, ".")} --> ${formatTimestamp(end, ".")}\n${subtitle.text}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+/** 所有字幕整体平移，offset 为负数时提前，时间不会小于 0 */
+export function shiftSubtitles(subtitles: Subtitle[], offset: number): Subtitle[] {
+  return subtitles.map((subtitle) => {
+    const { start, end } = cueRange(subtitle);
+    return {
+      ...subtitle,
+      start: formatTimestamp(Math.max(0, start + offset)),
+      end: formatTimestamp(Math.max(0, end + offset)),
+    };
+  });
+}
+
+/**
+ * 在 at 秒处把一条字幕拆成两条，文本按比例在最近的空白或标点处断开
+ * at 不在字幕时间范围内时取中点
+ */
+export function splitSubtitle(subtitles: Subtitle[], index: number, at?: number): Subtitle[] {
+  const subtitle = subtitles[index];
+  if (!subtitle) {
+    return subtitles;
+  }
+  const { start, end } = cueRange(subtitle);
+  const splitAt = at !== undefined && at > start && at < end ? at : (start + end) / 2;
+  const ratio = (splitAt - start) / (end - start || 1);
+  const text = subtitle.text;
+  let cut = Math.round(text.length * ratio);
+  const breakAt = text.slice(0, cut).search(/[\s，。,.!?！？；;][^\s，。,.!?！？；;]*$/);
+  if (breakAt > 0) {
+    cut = breakAt + 1;
+  }
+  const first = { ...subtitle, end: formatTimestamp(splitAt), text: text.slice(0, cut).trim() || text };
+  const second = { ...subtitle, start: formatTimestamp(splitAt), text: text.slice(cut).trim() };
+  return renumber([...subtitles.slice(0, index), first, second, ...subtitles.slice(index + 1)]);
+}
+
+/** 把第 index 条和下一条合并成一条 */
+export function mergeWithNext(subtitles: Subtitle[], index: number): Subtitle[] {
+  const current = subtitles[index];
+  const next = subtitles[index + 1];
+  if (!current || !next) {
+    return subtitles;
+  }
+  const merged = {
+    ...current,
+    end: next.end,
+    text: `${current.text} ${next.text}`.trim(),
+  };
+  return renumber([...subtitles.slice(0, index), merged, ...subtitles.slice(index + 2)]);
+}
+
+/** 最短的字幕时长（秒），修复重叠时不会把字幕压缩得比这更短 */
+const MIN_CUE_DURATION = 0.2;
+
+/** 按开始时间排序，截断和下一条重叠的部分，并修正结束早于开始的字幕 */
+export function fixOverlaps(subtitles: Subtitle[]): Subtitle[] {
+  const sorted = [...subtitles].sort((a, b) => parseTimestamp(a.start) - parseTimestamp(b.start));
+  const fixed = sorted.map((subtitle, index) => {
+    const { start } = cueRange(subtitle);
+    let { end } = cueRange(subtitle);
+    const next = sorted[index + 1];
+    if (next) {
+      end = Math.min(end, Math.max(parseTimestamp(next.start), start + MIN_CUE_DURATION));
+    }
+    end = Math.max(end, start + MIN_CUE_DURATION);
+    return { ...subtitle, start: formatTimestamp(start), end: formatTimestamp(end) };
+  });
+  return renumber(fixed);
+}
+
+/** 找出和前一条重叠的字幕下标 */
+export function findOverlaps(subtitles: Subtitle[]): Set<number> {
+  const overlaps = new Set<number>();
+  subtitles.forEach((subtitle, index) => {
+    const previous = subtitles[index - 1];
+    if (previous && parseTimestamp(subtitle.start) < parseTimestamp(previous.end)) {
+      overlaps.add(index);
+    }
+  });
+  return overlaps;
+}
+
+/** 当前时间所在的字幕下标，没有时返回 -1 */
+export function findActiveCue(subtitles: Subtitle[], time: number): number {
+  return subtitles.findIndex((subtitle) => {
+    const { start, end } = cueRange(subtitle);
+    return time >= start && time <= end;
+  });
+}
+
+/**
+ * 当前时间落在哪个时间点之后，用于高亮知识点
+ * @param times 按升序排列的时间点（秒）
+ * @returns 最后一个不晚于 time 的下标，还没到第一个时间点时返回 -1
+ */
+export function findActiveMarker(times: number[], time: number): number {
+  let active = -1;
+  times.forEach((start, index) => {
+    if (start <= time) {
+      active = index;
+    }
+  });
+  return active;
+}
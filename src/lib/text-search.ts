@@ -0,0 +1,68 @@
+/**
+ * 简单的全文检索工具，用于本地搜索 AI 对话
+ * 查询按空白切分为关键词，双引号包住的部分作为整体短语；所有关键词都出现才算命中，不区分大小写。
+ * 中文没有空格分词，直接按子串匹配。
+ */
+
+/** 解析查询，返回去重后的关键词（短语去掉引号） */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).trim().toLowerCase();
+    if (term && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/** 文本是否包含全部关键词 */
+export function matchesAll(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase();
+  return terms.every((term) => lower.includes(term));
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/** 把文本切成普通片段和命中片段，重叠的命中会合并 */
+export function splitHighlights(text: string, terms: string[]): HighlightPart[] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const parts: HighlightPart[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (end <= cursor) {
+      continue;
+    }
+    const from = Math.max(start, cursor);
+    if (from > cursor) {
+      parts.push({ text: text.slice(cursor, from), match: false });
+    }
+    parts.push({ text: text.slice(from, end), match: true });
+    cursor = end;
+  }
+  if (cursor < text.length) {
+    parts.push({ text: text.slice(cursor), match: false });
+  }
+  return parts;
+}
+
+/** 截取第一个命中位置附近的一段文字作为摘要，没有命中时取开头 */
+export function snippetAround(text: string, terms: string[], radius = 60): string {
+  const compact = text.replace(/\s+/g, " ").trim();
+  const lower = compact.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((index) => index !== -1);
+  const first = positions.length ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(compact.length, first + radius * 2);
+  return `${start > 0 ? "…" : ""}${compact.slice(start, end)}${end < compact.length ? "…" : ""}`;
+}
@@ -0,0 +1,42 @@
+import type { KnowledgePoints, Subtitle, VideoContext } from "@/server/training-server";
+import { formatClock, parseTimestamp } from "@/lib/subtitle";
+
+/** 当前字幕前后各带几条，让后端知道这句话的上下文 */
+const SUBTITLE_WINDOW = 3;
+
+/**
+ * 整理出视频在某一时刻的画面信息，随提问一起发给后端
+ * 当前字幕取正在显示的一条，两条字幕之间的空隙取刚播完的那条；知识点取最近一个已经开始的
+ */
+export function buildVideoContext(
+  seconds: number,
+  subtitles: Subtitle[] = [],
+  knowledgePoints?: KnowledgePoints,
+  sectionId?: string,
+): VideoContext {
+  const ranges = subtitles.map((subtitle) => ({ subtitle, start: parseTimestamp(subtitle.start), end: parseTimestamp(subtitle.end) }));
+  let activeIndex = ranges.findIndex((range) => seconds >= range.start && seconds <= range.end);
+  if (activeIndex === -1) {
+    activeIndex = ranges.reduce((found, range, index) => (range.start <= seconds ? index : found), -1);
+  }
+  const keyPoint = (knowledgePoints?.key_points ?? [])
+    .filter((point) => point.time && parseTimestamp(point.time) <= seconds)
+    .sort((a, b) => parseTimestamp(a.time) - parseTimestamp(b.time))
+    .at(-1);
+
+  return {
+    sectionId,
+    time: Math.floor(seconds),
+    subtitle: activeIndex === -1 ? undefined : ranges[activeIndex].subtitle,
+    subtitleWindow:
+      activeIndex === -1
+        ? []
+        : ranges.slice(Math.max(0, activeIndex - SUBTITLE_WINDOW), activeIndex + SUBTITLE_WINDOW + 1).map((range) => range.subtitle),
+    keyPoint,
+  };
+}
+
+/** 输入框上方和消息里显示的简短说明 */
+export function videoContextLabel(context: VideoContext): string {
+  return context.keyPoint ? `视频 ${formatClock(context.time)} · ${context.keyPoint.title}` : `视频 ${formatClock(context.time)}`;
+}
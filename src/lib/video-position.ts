@@ -0,0 +1,19 @@
+/**
+ * 页面上视频的播放位置，由 VideoPlayer 在播放进度变化时更新
+ * AI 对话里的 /timestamp 等功能读取它，播放器卸载后清空
+ */
+
+let currentSeconds: number | undefined;
+
+export const videoPosition = {
+  /** 当前播放到的秒数，页面上没有视频时为 undefined */
+  get(): number | undefined {
+    return currentSeconds;
+  },
+  set(seconds: number) {
+    currentSeconds = seconds;
+  },
+  clear() {
+    currentSeconds = undefined;
+  },
+};
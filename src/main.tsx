@@ -7,17 +7,33 @@ import App from './pages/app/index.tsx'
 import { SectionDetail } from './pages/section-detail/index.tsx';
 import { CourseList } from './pages/course-list/index.tsx';
 import { CourseDetail } from './pages/course-detail/index.tsx';
-import UserList from './pages/user-list/index.tsx';
-import { authMiddleware } from './containers/auth-middleware/index.tsx';
+import Login from './pages/login/index.tsx';
+import { authMiddleware, requireRole } from './containers/auth-middleware/index.tsx';
+import Admin from './pages/admin/index.tsx';
+import { AdminOverview } from './pages/admin-overview/index.tsx';
+import { AdminCourseList } from './pages/admin-course-list/index.tsx';
+import { AdminCourseEditor } from './pages/admin-course-editor/index.tsx';
+import { AdminExerciseBank } from './pages/admin-exercise-bank/index.tsx';
+import { AdminSubtitleEditor } from './pages/admin-subtitle-editor/index.tsx';
+import { AdminKnowledgePoints } from './pages/admin-knowledge-points/index.tsx';
+import { AdminAnswerFeedback } from './pages/admin-answer-feedback/index.tsx';
+import Forbidden from './pages/forbidden/index.tsx';
+import { ConversationNotes } from './pages/conversation-notes/index.tsx';
+import { ConversationSearch } from './pages/conversation-search/index.tsx';
+import { PersonaManager } from './pages/persona-manager/index.tsx';
 
 const router = createHashRouter([
   {
     index: true,
-    Component: UserList,
+    Component: Login,
+  },
+  {
+    path: "/login",
+    Component: Login,
   },
   {
     path: "/userList",
-    Component: UserList,
+    loader: () => redirect("/login"),
   },
   {
     path: "/app",
@@ -39,9 +55,62 @@ const router = createHashRouter([
       {
         path: "courseList/courseDetail/:courseId/sectionDetail/:sectionId",
         Component: SectionDetail,
-      }
+      },
+      {
+        path: "search",
+        Component: ConversationSearch,
+      },
+      {
+        path: "personas",
+        Component: PersonaManager,
+      },
+    ],
+  },
+  {
+    path: "/admin",
+    Component: Admin,
+    middleware: [authMiddleware, requireRole("instructor", "admin")],
+    children: [
+      {
+        index: true,
+        Component: AdminOverview,
+      },
+      {
+        path: "courses",
+        Component: AdminCourseList,
+      },
+      {
+        path: "courses/:courseId",
+        Component: AdminCourseEditor,
+      },
+      {
+        path: "courses/:courseId/sections/:sectionId/exercises",
+        Component: AdminExerciseBank,
+      },
+      {
+        path: "courses/:courseId/sections/:sectionId/subtitles",
+        Component: AdminSubtitleEditor,
+      },
+      {
+        path: "courses/:courseId/sections/:sectionId/knowledge-points",
+        Component: AdminKnowledgePoints,
+      },
+      {
+        path: "feedback",
+        Component: AdminAnswerFeedback,
+      },
     ],
   },
+  {
+    path: "/conversation/:sessionId?",
+    Component: ConversationNotes,
+    middleware: [authMiddleware],
+  },
+  {
+    path: "/forbidden",
+    Component: Forbidden,
+    middleware: [authMiddleware],
+  },
 ]);
 
 createRoot(document.getElementById('root')!).render(
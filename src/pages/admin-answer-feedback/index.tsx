@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { useAutoCache } from "@/containers/auto-cache";
+import { renderCitationsAsText } from "@/lib/citation";
+import { answerFeedbackReasons, aiChatServer, feedbackTag, type AnswerFeedback } from "@/server/training-server";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { MarkdownRenderer } from "@/components/ui/markdown-renderer";
+
+const PAGE_SIZE = 20;
+
+function reasonName(reason: string) {
+  return answerFeedbackReasons[reason as keyof typeof answerFeedbackReasons] ?? reason;
+}
+
+/** 讲师查看学员对 AI 回答的反馈，默认只看被点踩的回答 */
+export function AdminAnswerFeedback() {
+  const [rating, setRating] = useState<"up" | "down">("down");
+  const [page, setPage] = useState(1);
+  const [viewing, setViewing] = useState<AnswerFeedback | null>(null);
+  const { loading, error, data } = useAutoCache(aiChatServer.getFeedbackList, [{ rating, page, limit: PAGE_SIZE }], undefined, undefined, { tags: [feedbackTag] });
+  const totalPages = data?.pagination?.totalPages ?? 1;
+
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">回答反馈</h2>
+        <Tabs
+          value={rating}
+          onValueChange={(value) => {
+            setRating(value as "up" | "down");
+            setPage(1);
+          }}
+        >
+          <TabsList>
+            <TabsTrigger value="down"><ThumbsDown />没帮助</TabsTrigger>
+            <TabsTrigger value="up"><ThumbsUp />有帮助</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+      {loading ? (
+        <div>loading...</div>
+      ) : error ? (
+        <div>{error.message}</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[160px]">时间</TableHead>
+              <TableHead className="w-[200px]">课程 / 章节</TableHead>
+              <TableHead>提问</TableHead>
+              <TableHead className="w-[240px]">原因</TableHead>
+              <TableHead className="w-[100px]">学员</TableHead>
+              <TableHead className="w-[80px] text-right">操作</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data?.data.map((feedback) => (
+              <TableRow key={feedback.feedback_id}>
+                <TableCell className="text-muted-foreground">{feedback.created_at.toLocaleString("zh-CN", { hour12: false })}</TableCell>
+                <TableCell className="max-w-[200px] truncate">{[feedback.course_name, feedback.section_title].filter(Boolean).join(" / ") || "日常对话"}</TableCell>
+                <TableCell className="max-w-[360px] truncate">{feedback.user_message}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {feedback.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">{reasonName(reason)}</Badge>
+                    ))}
+                    {feedback.comment && <span className="truncate text-xs text-muted-foreground">{feedback.comment}</span>}
+                  </div>
+                </TableCell>
+                <TableCell>{feedback.user_name ?? "-"}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => setViewing(feedback)}>查看</Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {data?.data.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">暂无反馈</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      )}
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>上一页</Button>
+        <span className="text-sm text-muted-foreground">{page} / {totalPages}</span>
+        <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>下一页</Button>
+      </div>
+      <Dialog open={viewing !== null} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-h-[80vh] overflow-auto sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>反馈详情</DialogTitle>
+            <DialogDescription>
+              {viewing && [viewing.course_name, viewing.section_title, viewing.persona_name].filter(Boolean).join(" · ")}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="flex flex-col gap-4 text-sm">
+              <div>
+                <div className="mb-1 text-xs text-muted-foreground">学员提问</div>
+                <p className="whitespace-pre-wrap rounded-md bg-muted p-3">{viewing.user_message}</p>
+              </div>
+              <div>
+                <div className="mb-1 text-xs text-muted-foreground">AI 回答</div>
+                <div className="rounded-md border p-3">
+                  <MarkdownRenderer content={renderCitationsAsText(viewing.ai_response ?? "")} />
+                </div>
+              </div>
+              {(viewing.reasons.length > 0 || viewing.comment) && (
+                <div>
+                  <div className="mb-1 text-xs text-muted-foreground">反馈</div>
+                  <div className="flex flex-wrap gap-1">
+                    {viewing.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">{reasonName(reason)}</Badge>
+                    ))}
+                  </div>
+                  {viewing.comment && <p className="mt-2 whitespace-pre-wrap">{viewing.comment}</p>}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
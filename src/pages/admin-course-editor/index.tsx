@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { NavLink, useParams } from "react-router";
+import { Bookmark, Captions, ChevronLeft, ListChecks } from "lucide-react";
+import { useAutoCache } from "@/containers/auto-cache";
+import { invalidateQueries } from "@/lib/query-cache";
+import {
+  aiChatServer,
+  courseListTag,
+  courseServer,
+  courseTag,
+  sectionsServer,
+  type CourseResponse,
+  sectionTag,
+} from "@/server/training-server";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CourseForm } from "@/components/course-form";
+import { CourseOutlineEditor } from "@/components/course-outline-editor";
+import { SectionForm, type SectionFormValues } from "@/components/section-form";
+
+/** 编辑选中的小节，单独请求小节详情，大纲接口里不一定带完整内容 */
+function SectionEditor(props: { courseId: string; sectionId: string }) {
+  const { data, loading, error } = useAutoCache(sectionsServer.getById, [{ section_id: props.sectionId }], undefined, undefined, { tags: [sectionTag(props.sectionId)] });
+
+  async function saveSection(values: SectionFormValues) {
+    try {
+      await sectionsServer.update({ section_id: props.sectionId, ...values });
+      invalidateQueries(sectionTag(props.sectionId), courseTag(props.courseId));
+    } catch (e) {
+      console.error(e);
+      alert("保存小节失败");
+    }
+  }
+
+  if (error) {
+    return <div>{error.message}</div>
+  }
+  // 只在拿到的确实是当前小节时才显示表单，避免把别的小节的内容保存到这一节
+  if (loading || data?.data?.section_id !== props.sectionId) {
+    return <div>loading...</div>
+  }
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex justify-end gap-2">
+        <NavLink to={`/admin/courses/${props.courseId}/sections/${props.sectionId}/knowledge-points`}>
+          <Button variant="outline" size="sm"><Bookmark />编辑知识点</Button>
+        </NavLink>
+        <NavLink to={`/admin/courses/${props.courseId}/sections/${props.sectionId}/subtitles`}>
+          <Button variant="outline" size="sm"><Captions />编辑字幕</Button>
+        </NavLink>
+        <NavLink to={`/admin/courses/${props.courseId}/sections/${props.sectionId}/exercises`}>
+          <Button variant="outline" size="sm"><ListChecks />编辑随堂测验</Button>
+        </NavLink>
+      </div>
+      <SectionForm section={data.data} onSubmit={saveSection} />
+    </div>
+  )
+}
+
+/** 课程编辑工作台：左侧课程信息和大纲，右侧编辑选中的小节 */
+export function AdminCourseEditor() {
+  const params = useParams();
+  const courseId = params.courseId!;
+  const [selectedSectionId, setSelectedSectionId] = useState<string>();
+  const { loading, error, data } = useAutoCache(courseServer.getCourseChaptersSections, [{ course_id: courseId }], undefined, undefined, { tags: [courseTag(courseId)] });
+  const { data: personas } = useAutoCache(aiChatServer.getPersonas, [courseId]);
+
+  async function saveCourse(values: Partial<CourseResponse>) {
+    try {
+      await courseServer.update({ ...values, course_id: courseId });
+      invalidateQueries(courseTag(courseId), courseListTag);
+    } catch (e) {
+      console.error(e);
+      alert("保存课程失败");
+    }
+  }
+
+  if (loading) {
+    return <div>loading...</div>
+  }
+  if (error) {
+    return <div>{error.message}</div>
+  }
+  const course = data.data;
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <NavLink to="/admin/courses">
+        <Button variant="ghost" size="sm"><ChevronLeft />返回课程管理</Button>
+      </NavLink>
+      <div className="grid grid-cols-[360px_1fr] gap-4">
+        <div className="flex flex-col gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>课程信息</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CourseForm course={course} personas={personas?.data} onSubmit={saveCourse} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>课程大纲</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CourseOutlineEditor
+                courseId={courseId}
+                chapters={course.chapters ?? []}
+                selectedSectionId={selectedSectionId}
+                onSelectSection={(section) => setSelectedSectionId(section.section_id)}
+                onChanged={() => invalidateQueries(courseTag(courseId))}
+              />
+            </CardContent>
+          </Card>
+        </div>
+        <Card>
+          <CardHeader>
+            <CardTitle>小节内容</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {selectedSectionId ? (
+              <SectionEditor key={selectedSectionId} courseId={courseId} sectionId={selectedSectionId} />
+            ) : (
+              <div className="text-sm text-muted-foreground">在左侧大纲中选择一个小节进行编辑</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
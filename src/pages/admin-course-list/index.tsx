@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { NavLink, useNavigate } from "react-router";
+import { Book, Pencil, Plus, Trash2 } from "lucide-react";
+import { useAutoCache } from "@/containers/auto-cache";
+import { invalidateQueries } from "@/lib/query-cache";
+import { courseListTag, courseServer, type CourseResponse } from "@/server/training-server";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CourseForm } from "@/components/course-form";
+
+/** 管理端的课程列表，可以新建、删除课程并进入编辑 */
+export function AdminCourseList() {
+  const navigate = useNavigate();
+  const [creating, setCreating] = useState(false);
+  const { loading, error, data } = useAutoCache(courseServer.search, [{ limit: 1000, page: 1 }], undefined, undefined, { tags: [courseListTag] });
+
+  async function createCourse(values: Partial<CourseResponse>) {
+    try {
+      const course = (await courseServer.add(values)).data;
+      invalidateQueries(courseListTag);
+      setCreating(false);
+      navigate(`/admin/courses/${course.course_id}`);
+    } catch (e) {
+      console.error(e);
+      alert("新建课程失败");
+    }
+  }
+
+  async function deleteCourse(course: CourseResponse) {
+    if (!confirm(`确定删除课程「${course.name}」吗？`)) {
+      return;
+    }
+    try {
+      await courseServer.delete({ course_id: course.course_id });
+    } catch (e) {
+      console.error(e);
+      alert("删除课程失败，请先删除课程下的所有章节");
+    } finally {
+      invalidateQueries(courseListTag);
+    }
+  }
+
+  if (loading) {
+    return <div>loading...</div>
+  }
+  if (error) {
+    return <div>{error.message}</div>
+  }
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">课程管理</h2>
+        <Button onClick={() => setCreating(true)}><Plus />新建课程</Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>课程名称</TableHead>
+            <TableHead>简介</TableHead>
+            <TableHead className="w-[120px] text-right">操作</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data?.data.map((course) => (
+            <TableRow key={course.course_id}>
+              <TableCell className="font-medium"><Book className="mr-2 inline size-4" />{course.name}</TableCell>
+              <TableCell className="max-w-[480px] truncate text-muted-foreground">{course.description}</TableCell>
+              <TableCell className="text-right">
+                <NavLink to={`/admin/courses/${course.course_id}`}>
+                  <Button variant="ghost" size="icon" title="编辑课程"><Pencil /></Button>
+                </NavLink>
+                <Button variant="ghost" size="icon" title="删除课程" onClick={() => deleteCourse(course)}><Trash2 /></Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>新建课程</DialogTitle>
+            <DialogDescription>创建后可以继续添加章节和小节</DialogDescription>
+          </DialogHeader>
+          <CourseForm submitText="创建" onSubmit={createCourse} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
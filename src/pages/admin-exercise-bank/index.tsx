@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { NavLink, useParams } from "react-router";
+import { ChevronLeft, Pencil, Plus, Trash2 } from "lucide-react";
+import { useAutoCache } from "@/containers/auto-cache";
+import { invalidateQueries } from "@/lib/query-cache";
+import {
+  exerciseOptionServer,
+  exerciseServer,
+  exercisesTag,
+  sectionsServer,
+  sectionTag,
+  type ExerciseResponse,
+} from "@/server/training-server";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ExerciseForm, type ExerciseFormValues } from "@/components/exercise-form";
+
+const typeNames: Record<string, string> = { "0": "单选题", "1": "多选题", "2": "简答题" };
+
+/** 保存题目，并按表单内容增删改它的选项 */
+async function saveExercise(sectionId: string, exercise: ExerciseResponse | undefined, values: ExerciseFormValues) {
+  const { options, ...fields } = values;
+  let exerciseId = exercise?.exercise_id;
+  if (exerciseId) {
+    await exerciseServer.update({ ...fields, exercise_id: exerciseId });
+  } else {
+    exerciseId = (await exerciseServer.add({ ...fields, section_id: sectionId })).data.exercise_id;
+  }
+
+  // 简答题没有选项，切换题型时把原来的选项全部删掉
+  const nextOptions = values.type_status === "2" ? [] : options;
+  const keptIds = new Set(nextOptions.map((option) => option.option_id).filter(Boolean));
+  const removed = (exercise?.options ?? []).filter((option) => !keptIds.has(option.option_id));
+  // 逐个保存，失败时立即停下；先写新选项再删旧选项，中途失败也不会留下一道没有正确答案的题
+  for (const { option_id, ...option } of nextOptions) {
+    if (option_id) {
+      await exerciseOptionServer.update({ ...option, option_id });
+    } else {
+      await exerciseOptionServer.add({ ...option, exercise_id: exerciseId });
+    }
+  }
+  for (const option of removed) {
+    await exerciseOptionServer.delete({ option_id: option.option_id });
+  }
+}
+
+/** 一节课的测验题库，编辑题目、选项和正确答案 */
+export function AdminExerciseBank() {
+  const params = useParams();
+  const sectionId = params.sectionId!;
+  /** 正在编辑的题目 id，"new" 表示新建 */
+  const [editing, setEditing] = useState<string>();
+  const { data: section } = useAutoCache(sectionsServer.getById, [{ section_id: sectionId }], undefined, undefined, { tags: [sectionTag(sectionId)] });
+  const { loading, error, data } = useAutoCache(exerciseServer.getExercisesWithOptionsBySection, [{ section_id: sectionId }], undefined, undefined, { tags: [exercisesTag(sectionId)] });
+
+  const exercises = data?.data ?? [];
+  const editingExercise = exercises.find((exercise) => exercise.exercise_id === editing);
+  const totalScore = exercises.reduce((sum, exercise) => sum + exercise.score, 0);
+
+  async function submit(values: ExerciseFormValues) {
+    try {
+      await saveExercise(sectionId, editingExercise, values);
+      setEditing(undefined);
+    } catch (e) {
+      console.error(e);
+      alert("保存题目失败");
+    } finally {
+      invalidateQueries(exercisesTag(sectionId));
+    }
+  }
+
+  async function deleteExercise(exercise: ExerciseResponse) {
+    if (!confirm("确定删除这道题吗？")) {
+      return;
+    }
+    try {
+      await Promise.all((exercise.options ?? []).map((option) => exerciseOptionServer.delete({ option_id: option.option_id })));
+      await exerciseServer.delete({ exercise_id: exercise.exercise_id });
+    } catch (e) {
+      console.error(e);
+      alert("删除题目失败");
+    } finally {
+      invalidateQueries(exercisesTag(sectionId));
+    }
+  }
+
+  if (loading) {
+    return <div>loading...</div>
+  }
+  if (error) {
+    return <div>{error.message}</div>
+  }
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <NavLink to={`/admin/courses/${params.courseId}`}>
+        <Button variant="ghost" size="sm"><ChevronLeft />返回课程编辑</Button>
+      </NavLink>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">
+          {section?.data?.title} 随堂测验
+          <span className="ml-2 text-sm font-normal text-muted-foreground">共 {exercises.length} 题，总分 {totalScore}</span>
+        </h2>
+        <Button disabled={editing === "new"} onClick={() => setEditing("new")}><Plus />新建题目</Button>
+      </div>
+      {editing === "new" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>新建题目</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ExerciseForm onSubmit={submit} onCancel={() => setEditing(undefined)} />
+          </CardContent>
+        </Card>
+      )}
+      {exercises.map((exercise, index) => (
+        <Card key={exercise.exercise_id}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <span>{index + 1}.</span>
+              <Badge variant="outline">{typeNames[exercise.type_status]}</Badge>
+              <Badge variant="secondary">{exercise.score} 分</Badge>
+              {editing !== exercise.exercise_id && <span className="truncate font-normal">{exercise.question}</span>}
+            </CardTitle>
+            {editing !== exercise.exercise_id && (
+              <CardAction>
+                <Button variant="ghost" size="icon" title="编辑题目" onClick={() => setEditing(exercise.exercise_id)}><Pencil /></Button>
+                <Button variant="ghost" size="icon" title="删除题目" onClick={() => deleteExercise(exercise)}><Trash2 /></Button>
+              </CardAction>
+            )}
+          </CardHeader>
+          {editing === exercise.exercise_id && (
+            <CardContent>
+              <ExerciseForm exercise={exercise} onSubmit={submit} onCancel={() => setEditing(undefined)} />
+            </CardContent>
+          )}
+        </Card>
+      ))}
+      {exercises.length === 0 && editing !== "new" && (
+        <div className="text-sm text-muted-foreground">这一节还没有测验题</div>
+      )}
+    </div>
+  )
+}
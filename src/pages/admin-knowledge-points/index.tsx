@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+import { NavLink, useParams } from "react-router";
+import { ChevronLeft, Save } from "lucide-react";
+import { useAutoCache } from "@/containers/auto-cache";
+import { invalidateQueries } from "@/lib/query-cache";
+import { sectionsServer, sectionTag } from "@/server/training-server";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { VideoPlayer, type VideoPlayerRef } from "@/components/video-player";
+import { KnowledgePointEditor, type KeyPoint } from "@/components/knowledge-point-editor";
+
+/** 一节课的知识点编辑页，暂停视频记录时间点，标记会实时显示在进度条上 */
+export function AdminKnowledgePoints() {
+  const params = useParams();
+  const sectionId = params.sectionId!;
+  const playerRef = useRef<VideoPlayerRef>(null);
+  const [draft, setDraft] = useState<KeyPoint[]>();
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { loading, error, data } = useAutoCache(sectionsServer.getById, [{ section_id: sectionId }], undefined, undefined, { tags: [sectionTag(sectionId)] });
+  const section = data?.data;
+
+  const syncedSection = useRef<typeof section>(undefined);
+
+  // 后端数据到达时重置草稿，编辑中不覆盖；保存后重新请求回来之前缓存里还是旧数据，不能拿它重置
+  useEffect(() => {
+    if (!section || section === syncedSection.current) {
+      return;
+    }
+    syncedSection.current = section;
+    if (!dirty) {
+      setDraft(section.knowledge_points?.key_points ?? []);
+    }
+  }, [section, dirty]);
+
+  function change(points: KeyPoint[]) {
+    setDraft(points);
+    setDirty(true);
+  }
+
+  function captureTime() {
+    playerRef.current?.pause();
+    return playerRef.current?.getCurrentTime() ?? 0;
+  }
+
+  async function save() {
+    if (!draft) {
+      return;
+    }
+    if (draft.some((point) => !point.description.trim())) {
+      alert("还有知识点没有填写描述");
+      return;
+    }
+    setSaving(true);
+    try {
+      await sectionsServer.update({
+        section_id: sectionId,
+        knowledge_points: { ...section?.knowledge_points, key_points: draft },
+      });
+      setDirty(false);
+      invalidateQueries(sectionTag(sectionId));
+    } catch (e) {
+      console.error(e);
+      alert("保存知识点失败");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return <div>loading...</div>
+  }
+  if (error) {
+    return <div>{error.message}</div>
+  }
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <NavLink to={`/admin/courses/${params.courseId}`}>
+        <Button variant="ghost" size="sm"><ChevronLeft />返回课程编辑</Button>
+      </NavLink>
+      <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-4">
+        <div className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">{section?.title}</h2>
+          {section?.video_url ? (
+            <VideoPlayer ref={playerRef} url={section.video_url} subtitles={section.video_subtitles} knowledge_points={{ key_points: draft }} />
+          ) : (
+            <div className="text-sm text-muted-foreground">这一节还没有设置视频地址</div>
+          )}
+        </div>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              知识点
+              {dirty && <Badge variant="secondary">未保存</Badge>}
+            </CardTitle>
+            <CardAction>
+              <Button size="sm" disabled={!dirty || saving} onClick={save}>
+                <Save />{saving ? "保存中..." : "保存知识点"}
+              </Button>
+            </CardAction>
+          </CardHeader>
+          <CardContent>
+            <KnowledgePointEditor
+              points={draft ?? []}
+              onChange={change}
+              captureTime={captureTime}
+              onSeek={(seconds) => playerRef.current?.seekTo(seconds)}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
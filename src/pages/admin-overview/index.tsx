@@ -0,0 +1,18 @@
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getLoginUser } from "@/containers/auth-middleware";
+
+export function AdminOverview() {
+  const user = getLoginUser();
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>内容管理</CardTitle>
+          <CardDescription>
+            {user?.name}，你可以在这里维护课程内容，管理入口在左侧菜单中。
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    </div>
+  )
+}
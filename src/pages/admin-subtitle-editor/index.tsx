@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { NavLink, useParams } from "react-router";
+import { ChevronLeft, Save } from "lucide-react";
+import { useAutoCache } from "@/containers/auto-cache";
+import { invalidateQueries } from "@/lib/query-cache";
+import { fixOverlaps, findOverlaps } from "@/lib/subtitle";
+import { sectionsServer, sectionTag, type Subtitle } from "@/server/training-server";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { VideoPlayer, type VideoPlayerRef } from "@/components/video-player";
+import { SubtitleEditor } from "@/components/subtitle-editor";
+
+/** 一节课的字幕编辑页，左侧播放视频，右侧编辑字幕 */
+export function AdminSubtitleEditor() {
+  const params = useParams();
+  const sectionId = params.sectionId!;
+  const playerRef = useRef<VideoPlayerRef>(null);
+  const [draft, setDraft] = useState<Subtitle[]>();
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [progress, setProgress] = useState({ currentTime: 0, duration: 0 });
+  const { loading, error, data } = useAutoCache(sectionsServer.getById, [{ section_id: sectionId }], undefined, undefined, { tags: [sectionTag(sectionId)] });
+  const section = data?.data;
+
+  const syncedSection = useRef<typeof section>(undefined);
+
+  // 后端数据到达时重置草稿，编辑中不覆盖；保存后重新请求回来之前缓存里还是旧数据，不能拿它重置
+  useEffect(() => {
+    if (!section || section === syncedSection.current) {
+      return;
+    }
+    syncedSection.current = section;
+    if (!dirty) {
+      setDraft(section.video_subtitles ?? []);
+    }
+  }, [section, dirty]);
+
+  const onTimeUpdate = useCallback((currentTime: number, duration: number) => {
+    setProgress({ currentTime, duration });
+  }, []);
+
+  function change(subtitles: Subtitle[]) {
+    setDraft(subtitles);
+    setDirty(true);
+  }
+
+  async function save() {
+    if (!draft) {
+      return;
+    }
+    let subtitles = draft;
+    if (findOverlaps(draft).size > 0) {
+      if (!confirm("有字幕时间重叠，是否先自动修复再保存？")) {
+        return;
+      }
+      subtitles = fixOverlaps(draft);
+    }
+    setSaving(true);
+    try {
+      await sectionsServer.update({ section_id: sectionId, video_subtitles: subtitles });
+      setDraft(subtitles);
+      setDirty(false);
+      invalidateQueries(sectionTag(sectionId));
+    } catch (e) {
+      console.error(e);
+      alert("保存字幕失败");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return <div>loading...</div>
+  }
+  if (error) {
+    return <div>{error.message}</div>
+  }
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <NavLink to={`/admin/courses/${params.courseId}`}>
+        <Button variant="ghost" size="sm"><ChevronLeft />返回课程编辑</Button>
+      </NavLink>
+      <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-4">
+        <div className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">{section?.title}</h2>
+          {section?.video_url ? (
+            <VideoPlayer ref={playerRef} url={section.video_url} subtitles={draft} onTimeUpdate={onTimeUpdate} />
+          ) : (
+            <div className="text-sm text-muted-foreground">这一节还没有设置视频地址</div>
+          )}
+        </div>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              字幕
+              {dirty && <Badge variant="secondary">未保存</Badge>}
+            </CardTitle>
+            <CardAction>
+              <Button size="sm" disabled={!dirty || saving} onClick={save}>
+                <Save />{saving ? "保存中..." : "保存字幕"}
+              </Button>
+            </CardAction>
+          </CardHeader>
+          <CardContent>
+            <SubtitleEditor
+              subtitles={draft ?? []}
+              onChange={change}
+              currentTime={progress.currentTime}
+              duration={progress.duration}
+              onSeek={(seconds) => playerRef.current?.seekTo(seconds)}
+              fileName={section?.title}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
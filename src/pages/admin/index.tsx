@@ -0,0 +1,15 @@
+import { AppLeftSidebar } from "@/components/app-left-sidebar";
+import { Outlet } from "react-router";
+
+/** 讲师和管理员的内容管理区，不需要右侧的 AI 对话栏 */
+function Admin() {
+  return (
+    <div className="flex flex-row">
+      <AppLeftSidebar>
+        <Outlet />
+      </AppLeftSidebar>
+    </div>
+  )
+}
+
+export default Admin
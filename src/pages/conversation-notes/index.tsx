@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams, useSearchParams } from "react-router";
+import { Download, FileUp, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MarkdownRenderer } from "@/components/ui/markdown-renderer";
+import { useAutoCache } from "@/containers/auto-cache";
+import { downloadText } from "@/lib/utils";
+import { renderCitationsAsText } from "@/lib/citation";
+import {
+  conversationFileName,
+  conversationTitle,
+  formatConversationTime,
+  parseConversationArchive,
+  toConversationJson,
+  toConversationMarkdown,
+} from "@/lib/conversation-export";
+import { aiChatServer, type SessionHistoryResponse } from "@/server/training-server";
+
+/** 打印前等代码高亮、公式渲染完成 */
+const PRINT_DELAY = 800;
+
+/** 打印友好的对话笔记版式，工具栏在打印时隐藏 */
+function ConversationView(props: {
+  history: SessionHistoryResponse;
+  /** 加载后自动弹出打印对话框 */
+  autoPrint?: boolean;
+  onImport: (file: File) => void;
+}) {
+  const { history } = props;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileName = conversationFileName(history);
+
+  useEffect(() => {
+    if (!props.autoPrint) {
+      return;
+    }
+    const timer = window.setTimeout(() => window.print(), PRINT_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [props.autoPrint]);
+
+  return (
+    <div className="mx-auto flex max-w-3xl flex-col gap-6 p-6 print:max-w-none print:p-0">
+      <div className="flex flex-wrap items-center gap-2 print:hidden">
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <FileUp />导入 JSON 存档
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              props.onImport(file);
+            }
+          }}
+        />
+        <Button variant="outline" size="sm" disabled={!history.history.length} onClick={() => downloadText(`${fileName}.md`, toConversationMarkdown(history), "text/markdown")}>
+          <Download />导出 Markdown
+        </Button>
+        <Button variant="outline" size="sm" disabled={!history.history.length} onClick={() => downloadText(`${fileName}.json`, toConversationJson(history), "application/json")}>
+          <Download />导出 JSON
+        </Button>
+        <Button size="sm" disabled={!history.history.length} onClick={() => window.print()}>
+          <Printer />打印 / 保存为 PDF
+        </Button>
+      </div>
+      <header className="border-b pb-4">
+        <h1 className="text-2xl font-semibold">{conversationTitle(history)}</h1>
+        <p className="text-sm text-muted-foreground">共 {history.history.length} 轮对话</p>
+      </header>
+      {history.history.map((item) => (
+        <section key={item.interaction_id} className="flex flex-col gap-3 border-b pb-6 last:border-b-0">
+          <div className="break-inside-avoid rounded-md bg-muted p-3 print:border print:bg-transparent">
+            <div className="mb-1 text-xs text-muted-foreground">
+              {item.user_name || "我"} · {formatConversationTime(item.query_time)}
+            </div>
+            <p className="whitespace-pre-wrap">{item.user_message}</p>
+          </div>
+          <div>
+            <div className="mb-1 text-xs text-muted-foreground">{item.persona_name || "AI"}</div>
+            <MarkdownRenderer content={renderCitationsAsText(item.ai_response)} />
+          </div>
+        </section>
+      ))}
+      {history.history.length === 0 && <div className="text-sm text-muted-foreground">还没有对话记录，可以导入之前导出的 JSON 存档查看</div>}
+    </div>
+  );
+}
+
+/** 从后端加载一个会话的历史 */
+function SessionConversation(props: { sessionId: string; autoPrint: boolean; onImport: (file: File) => void }) {
+  const { data, loading, error } = useAutoCache(aiChatServer.getSessionHistory, [props.sessionId, true]);
+  if (loading) return <div>loading...</div>;
+  if (error || !data) return <div className="p-6 text-sm text-destructive">对话记录加载失败</div>;
+  return <ConversationView history={data.data.data} autoPrint={props.autoPrint} onImport={props.onImport} />;
+}
+
+/**
+ * 对话笔记页
+ * 带 sessionId 时展示后端保存的会话，否则可以导入之前导出的 JSON 存档查看；`?print=1` 打开后自动打印
+ */
+export function ConversationNotes() {
+  const { sessionId } = useParams();
+  const [searchParams] = useSearchParams();
+  const [imported, setImported] = useState<SessionHistoryResponse | null>(null);
+
+  async function importArchive(file: File) {
+    try {
+      setImported(parseConversationArchive(await file.text()));
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "导入失败");
+    }
+  }
+
+  if (imported) {
+    return <ConversationView history={imported} onImport={importArchive} />;
+  }
+  if (sessionId) {
+    return <SessionConversation sessionId={sessionId} autoPrint={searchParams.get("print") === "1"} onImport={importArchive} />;
+  }
+  return <ConversationView history={{ session_id: "", message_count: 0, history: [] }} onImport={importArchive} />;
+}
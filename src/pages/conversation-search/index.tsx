@@ -0,0 +1,221 @@
+import { useCallback, useDeferredValue, useEffect, useState } from "react";
+import { useNavigate } from "react-router";
+import { ArrowRight, RefreshCw, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getLoginUser } from "@/containers/auth-middleware";
+import { stripCitations } from "@/lib/citation";
+import { conversationIndex, type IndexedMessage } from "@/lib/conversation-index";
+import { matchesAll, parseSearchQuery, snippetAround, splitHighlights } from "@/lib/text-search";
+import { aiChatServer } from "@/server/training-server";
+
+/** 筛选项“全部”，Select 不允许空字符串作为选项值 */
+const ALL = "all";
+
+/** 一次最多展示的结果数 */
+const MAX_RESULTS = 100;
+
+/**
+ * 把后端的会话历史同步到本地索引
+ * 只重新拉取 last_interaction 变化过的会话，后端已删除的会话从索引中移除
+ */
+async function syncConversationIndex(userId: string, onProgress: (done: number, total: number) => void) {
+  const sessions = (await aiChatServer.getSessionsByUserAndSection(userId)).data.data.sessions;
+  const indexed = new Map((await conversationIndex.getSessions(userId)).map((session) => [session.session_id, session]));
+  for (const sessionId of indexed.keys()) {
+    if (!sessions.some((session) => session.session_id === sessionId)) {
+      await conversationIndex.removeSession(sessionId);
+    }
+  }
+  const stale = sessions.filter((session) => indexed.get(session.session_id)?.last_interaction !== session.last_interaction.getTime());
+  for (const [index, session] of stale.entries()) {
+    const history = (await aiChatServer.getSessionHistory(session.session_id, true)).data.data.history;
+    await conversationIndex.putSession(
+      { session_id: session.session_id, user_id: userId, last_interaction: session.last_interaction.getTime() },
+      history.map((item) => ({
+        interaction_id: item.interaction_id,
+        user_id: userId,
+        session_id: session.session_id,
+        section_id: session.section_id,
+        course_id: session.course_id,
+        course_name: session.course_name,
+        section_title: item.section_title ?? session.section_title,
+        persona_name: item.persona_name,
+        user_message: item.user_message,
+        ai_response: item.ai_response,
+        query_time: item.query_time.getTime(),
+      })),
+    );
+    onProgress(index + 1, stale.length);
+  }
+}
+
+function Highlight(props: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlights(props.text, props.terms).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+/** 去重后的筛选选项 */
+function optionsOf(messages: IndexedMessage[], pick: (message: IndexedMessage) => string | undefined) {
+  return [...new Set(messages.map(pick).filter((value): value is string => Boolean(value)))].sort();
+}
+
+function FilterSelect(props: { placeholder: string; value: string; options: string[]; onChange: (value: string) => void }) {
+  return (
+    <Select value={props.value} onValueChange={props.onChange}>
+      <SelectTrigger className="w-[160px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>{props.placeholder}</SelectItem>
+        {props.options.map((option) => (
+          <SelectItem key={option} value={option}>{option}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** 在我所有的 AI 对话中搜索，点击结果跳到对应章节的对话位置 */
+export function ConversationSearch() {
+  const navigate = useNavigate();
+  const userId = getLoginUser()?.user_id ?? "";
+  const [messages, setMessages] = useState<IndexedMessage[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [syncError, setSyncError] = useState("");
+  const [query, setQuery] = useState("");
+  const [course, setCourse] = useState(ALL);
+  const [section, setSection] = useState(ALL);
+  const [persona, setPersona] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const deferredQuery = useDeferredValue(query);
+
+  const sync = useCallback(async () => {
+    setSyncError("");
+    setProgress({ done: 0, total: 0 });
+    try {
+      await syncConversationIndex(userId, (done, total) => setProgress({ done, total }));
+    } catch (error) {
+      console.error("同步对话索引失败:", error);
+      setSyncError("同步失败，显示的是上次同步的结果");
+    }
+    // 同步失败也重新读一次本地索引，已经同步完的会话照样能搜到
+    try {
+      setMessages(await conversationIndex.getMessages(userId));
+    } catch (error) {
+      console.error("读取对话索引失败:", error);
+    } finally {
+      setProgress(null);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    // 先展示本地已有的索引，再在后台同步
+    conversationIndex.getMessages(userId).then(setMessages).catch(console.error);
+    sync();
+  }, [userId, sync]);
+
+  const terms = parseSearchQuery(deferredQuery);
+  const fromTime = from ? new Date(`${from}T00:00:00`).getTime() : -Infinity;
+  const toTime = to ? new Date(`${to}T23:59:59.999`).getTime() : Infinity;
+  const results = messages
+    .filter(
+      (message) =>
+        (course === ALL || message.course_name === course) &&
+        (section === ALL || message.section_title === section) &&
+        (persona === ALL || message.persona_name === persona) &&
+        message.query_time >= fromTime &&
+        message.query_time <= toTime &&
+        matchesAll(`${message.user_message}\n${stripCitations(message.ai_response)}`, terms),
+    )
+    .sort((a, b) => b.query_time - a.query_time);
+
+  function open(message: IndexedMessage) {
+    const params = new URLSearchParams({ session: message.session_id, interaction: message.interaction_id });
+    navigate(`/app/courseList/courseDetail/${message.course_id}/sectionDetail/${message.section_id}?${params}`);
+  }
+
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute top-1/2 left-2.5 size-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            placeholder='搜索提问和回答，多个关键词用空格分开，"用引号" 搜索完整短语'
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+          />
+        </div>
+        <Button variant="outline" disabled={progress !== null} onClick={sync}>
+          <RefreshCw className={progress ? "animate-spin" : undefined} />
+          {progress ? (progress.total ? `同步中 ${progress.done}/${progress.total}` : "同步中") : "同步"}
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <FilterSelect
+          placeholder="全部课程"
+          value={course}
+          options={optionsOf(messages, (message) => message.course_name)}
+          onChange={(value) => {
+            setCourse(value);
+            setSection(ALL);
+          }}
+        />
+        <FilterSelect
+          placeholder="全部章节"
+          value={section}
+          options={optionsOf(
+            messages.filter((message) => course === ALL || message.course_name === course),
+            (message) => message.section_title,
+          )}
+          onChange={setSection}
+        />
+        <FilterSelect placeholder="全部人设" value={persona} options={optionsOf(messages, (message) => message.persona_name)} onChange={setPersona} />
+        <Input type="date" className="w-[150px]" value={from} onChange={(event) => setFrom(event.target.value)} />
+        <span className="text-muted-foreground">至</span>
+        <Input type="date" className="w-[150px]" value={to} onChange={(event) => setTo(event.target.value)} />
+      </div>
+      <div className="text-sm text-muted-foreground">
+        共 {results.length} 条结果{results.length > MAX_RESULTS ? `，显示最近的 ${MAX_RESULTS} 条` : ""}
+        {syncError && <span className="ml-2 text-destructive">{syncError}</span>}
+      </div>
+      <div className="flex flex-col gap-2">
+        {results.slice(0, MAX_RESULTS).map((message) => (
+          <div key={message.interaction_id} className="flex flex-col gap-2 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>
+                {[message.course_name, message.section_title, message.persona_name].filter(Boolean).join(" · ")}
+                {" · "}
+                {new Date(message.query_time).toLocaleString("zh-CN", { hour12: false })}
+              </span>
+              <Button variant="ghost" size="sm" disabled={!message.course_id || !message.section_id} onClick={() => open(message)}>
+                查看对话<ArrowRight />
+              </Button>
+            </div>
+            <div className="text-sm font-medium">
+              <Highlight text={snippetAround(message.user_message, terms)} terms={terms} />
+            </div>
+            <div className="text-sm text-muted-foreground">
+              <Highlight text={snippetAround(stripCitations(message.ai_response), terms, 100)} terms={terms} />
+            </div>
+          </div>
+        ))}
+        {results.length === 0 && progress === null && (
+          <div className="text-sm text-muted-foreground">{messages.length ? "没有找到匹配的对话" : "还没有 AI 对话记录"}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { Fragment } from "react"
 import { useAutoCache } from "@/containers/auto-cache";
-import { chapterServer, courseServer, sectionsServer } from "@/server/training-server";
+import { courseServer, courseTag } from "@/server/training-server";
 import {
   Table,
   TableBody,
@@ -22,7 +22,7 @@ const unlockState = ['待完成', '待完成', '已完成'];
 export function CourseDetail() {
   const params = useParams();
   const user = getLoginUser();
-  const { loading, error, data } = useAutoCache(courseServer.getCourseChaptersSections.bind(sectionsServer),[{course_id: params?.courseId, user_id: user.user_id}]);
+  const { loading, error, data } = useAutoCache(courseServer.getCourseChaptersSections,[{course_id: params?.courseId, user_id: user.user_id}], undefined, undefined, { tags: [courseTag(params?.courseId)] });
   if (loading) {
     return <div>loading...</div>
   }
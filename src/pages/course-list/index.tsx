@@ -1,5 +1,5 @@
 import { useAutoCache } from "@/containers/auto-cache";
-import { courseServer } from "@/server/training-server";
+import { courseListTag, courseServer } from "@/server/training-server";
 import { Button } from "@/components/ui/button";
 import { NavLink } from "react-router";
 import { Item, ItemActions, ItemContent, ItemDescription, ItemFooter, ItemHeader, ItemMedia, ItemTitle } from "@/components/ui/item";
@@ -9,7 +9,7 @@ import "./index.css"
 import { Image } from "@/components/ui/shadcn-io/ai/image";
 
 export function CourseList() {
-  const { loading, error, data } = useAutoCache(courseServer.search.bind(courseServer), [{ limit: 1000, page: 1 }]);
+  const { loading, error, data } = useAutoCache(courseServer.search, [{ limit: 1000, page: 1 }], undefined, undefined, { tags: [courseListTag] });
   if (loading) {
     return <div>loading...</div>
   }
@@ -0,0 +1,49 @@
+import { ShieldAlert } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { getLoginUser, logout } from "@/containers/auth-middleware";
+import { useNavigate, useSearchParams } from "react-router";
+
+const roleNames = {
+  learner: "学员",
+  instructor: "讲师",
+  admin: "管理员",
+};
+
+/** 当前账户没有访问权限时展示的页面 */
+export default function Forbidden() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const from = searchParams.get("from");
+  const user = getLoginUser();
+
+  async function switchAccount() {
+    await logout();
+    navigate("/login");
+  }
+
+  return (
+    <div className="flex min-h-svh items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="text-destructive" />
+            没有访问权限
+          </CardTitle>
+          <CardDescription>
+            {from ? `页面 ${from} ` : "该页面"}仅对讲师和管理员开放。
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          {user
+            ? `当前登录的是${roleNames[user.role ?? "learner"]}账户「${user.name}」，如需访问请联系管理员分配角色，或切换到有权限的账户。`
+            : "请先登录有权限的账户。"}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={switchAccount}>切换账户</Button>
+          <Button onClick={() => navigate("/app/courseList")}>返回课程广场</Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { GalleryVerticalEnd } from "lucide-react"
+import { SignupForm, type SignupValues } from "@/components/signup-form"
+import { CodeLoginForm, LoginForm, type CodeLoginValues, type PasswordLoginValues } from "@/components/login-form"
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/components/ui/tabs"
+import { authServer } from "@/server/training-server";
+import { TrainingApiError } from "@/lib/http-error";
+import logo from './logo.png';
+import { login, loginByCode, register } from "@/containers/auth-middleware";
+import { useNavigate } from "react-router";
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof TrainingApiError ? error.message : fallback;
+}
+
+export default function Login() {
+  const navigate = useNavigate();
+  async function passwordOnSubmit({ username, password }: PasswordLoginValues) {
+    try {
+      await login(username, password);
+      navigate("/app/courseList");
+    } catch (e) {
+      alert(errorMessage(e, "登录失败，请检查账户名和密码"));
+    }
+  }
+  async function sendCode(phone: string) {
+    try {
+      await authServer.sendCode({ phone });
+    } catch (e) {
+      alert(errorMessage(e, "验证码发送失败，请稍后重试"));
+      throw e;
+    }
+  }
+  async function codeOnSubmit({ phone, code }: CodeLoginValues) {
+    try {
+      await loginByCode(phone, code);
+      navigate("/app/courseList");
+    } catch (e) {
+      alert(errorMessage(e, "登录失败，请检查验证码"));
+    }
+  }
+  async function signupOnSubmit({ name, username, password }: SignupValues) {
+    try {
+      await register(name, username, password);
+      navigate("/app/courseList");
+    } catch (e) {
+      alert(errorMessage(e, "创建账户失败，请稍后重试"));
+    }
+  }
+  return (
+    <div className="grid min-h-svh lg:grid-cols-2">
+      <div className="flex flex-col gap-4 p-6 md:p-10">
+        <div className="flex justify-center gap-2 md:justify-start">
+          <a href="#" className="flex items-center gap-2 font-medium">
+            <div className="bg-primary text-primary-foreground flex size-6 items-center justify-center rounded-md">
+              <GalleryVerticalEnd className="size-4" />
+            </div>
+            AI学习助手知识培训
+          </a>
+        </div>
+        <div className="flex flex-1 items-center justify-center">
+          <div className="w-full max-w-xs">
+            <Tabs defaultValue="密码登录">
+              <TabsList>
+                <TabsTrigger value="密码登录">密码登录</TabsTrigger>
+                <TabsTrigger value="验证码登录">验证码登录</TabsTrigger>
+                <TabsTrigger value="创建账户">创建账户</TabsTrigger>
+              </TabsList>
+              <TabsContent value="密码登录">
+                <LoginForm onSubmit={passwordOnSubmit}/>
+              </TabsContent>
+              <TabsContent value="验证码登录">
+                <CodeLoginForm onSendCode={sendCode} onSubmit={codeOnSubmit}/>
+              </TabsContent>
+              <TabsContent value="创建账户">
+                <SignupForm onSubmit={signupOnSubmit}/>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </div>
+      </div>
+      <div className="bg-muted relative hidden lg:block">
+        <img
+          src={logo}
+          alt="Image"
+          className="absolute inset-0 h-full w-full object-cover dark:brightness-[0.2] dark:grayscale"
+        />
+      </div>
+    </div>
+  )
+}
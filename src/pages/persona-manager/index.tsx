@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router";
+import { Copy, Eraser, Lock, Save, SendHorizontal, Star, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Streamdown } from "streamdown";
+import { useAutoCache } from "@/containers/auto-cache";
+import { getLoginUser } from "@/containers/auth-middleware";
+import { TrainingApiError } from "@/lib/http-error";
+import { cn } from "@/lib/utils";
+import { aiChatServer, courseListTag, courseServer, personasTag, type AiPersona } from "@/server/training-server";
+
+type PreviewMessage = { role: "user" | "assistant"; content: string };
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof TrainingApiError ? error.message : fallback;
+}
+
+/** 学员自己在这门课程建的人设才能修改和删除，模板和其他人设只读 */
+function isOwnPersona(persona: AiPersona, userId: string) {
+  return !persona.is_default_template && persona.user_id === userId;
+}
+
+/** 用编辑中的提示词试聊，不需要先保存；改了提示词后下一条消息就按新的回答 */
+function PersonaPreview(props: { prompt: string }) {
+  const [messages, setMessages] = useState<PreviewMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [streaming, setStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  function reset() {
+    abortControllerRef.current?.abort();
+    setMessages([]);
+  }
+
+  async function send() {
+    const text = input.trim();
+    if (!text || streaming) return;
+    const history: PreviewMessage[] = [...messages, { role: "user", content: text }];
+    setMessages([...history, { role: "assistant", content: "" }]);
+    setInput("");
+    setStreaming(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const appendToAnswer = (delta: string) =>
+      setMessages((prev) => prev.map((message, index) => (index === prev.length - 1 ? { ...message, content: message.content + delta } : message)));
+    try {
+      const stream = await aiChatServer.previewPersona({ prompt: props.prompt, messages: history }, { signal: controller.signal });
+      for await (const event of stream) {
+        if (event.type === "text-delta") {
+          appendToAnswer(event.delta);
+        } else if (event.type === "error") {
+          appendToAnswer(`\n\n${event.message}`);
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("试聊失败:", error);
+        appendToAnswer(errorMessage(error, "试聊失败，请重试"));
+      }
+    } finally {
+      setStreaming(false);
+    }
+  }
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-2 rounded-md border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">试聊</span>
+        <Button variant="ghost" size="sm" disabled={messages.length === 0} onClick={reset}>
+          <Eraser />清空
+        </Button>
+      </div>
+      <div className="flex min-h-[200px] flex-1 flex-col gap-2 overflow-auto">
+        {messages.map((message, index) => (
+          <div
+            key={index}
+            className={cn("max-w-[85%] rounded-md px-3 py-2 text-sm", message.role === "user" ? "self-end bg-primary text-primary-foreground" : "self-start bg-muted")}
+          >
+            {message.role === "assistant" ? <Streamdown>{message.content || "..."}</Streamdown> : message.content}
+          </div>
+        ))}
+        {messages.length === 0 && <div className="m-auto text-sm text-muted-foreground">发一条消息看看这个人设会怎么回答，试聊内容不会保存</div>}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={input}
+          placeholder="输入试聊内容"
+          onChange={(event) => setInput(event.target.value)}
+          onKeyDown={(event) => {
+            // 输入法选词时的回车不发送
+            if (event.key === "Enter" && !event.nativeEvent.isComposing) send();
+          }}
+        />
+        <Button disabled={!input.trim() || streaming || !props.prompt.trim()} onClick={send}>
+          <SendHorizontal />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** 编辑人设的名称和提示词，只读时只能查看、试聊和复制 */
+function PersonaEditor(props: {
+  persona: AiPersona;
+  readOnly: boolean;
+  busy: boolean;
+  onClone: () => void;
+  onSave: (values: { name: string; prompt: string }) => void;
+  onDelete: () => void;
+  onSetDefault: () => void;
+}) {
+  const { persona, readOnly, busy } = props;
+  const [name, setName] = useState(persona.name);
+  const [prompt, setPrompt] = useState(persona.prompt);
+  const dirty = name !== persona.name || prompt !== persona.prompt;
+
+  return (
+    <div className="flex min-w-0 flex-1 flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input className="max-w-[280px]" value={name} disabled={readOnly} onChange={(event) => setName(event.target.value)} />
+        {persona.is_user_default && <Badge>本课程默认</Badge>}
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" disabled={busy || persona.is_user_default} onClick={props.onSetDefault}>
+            <Star />设为本课程默认
+          </Button>
+          <Button variant="outline" size="sm" disabled={busy} onClick={props.onClone}>
+            <Copy />复制为我的人设
+          </Button>
+          {!readOnly && (
+            <>
+              <Button variant="outline" size="sm" disabled={busy} onClick={props.onDelete}>
+                <Trash2 />删除
+              </Button>
+              <Button size="sm" disabled={busy || !dirty || !name.trim() || !prompt.trim()} onClick={() => props.onSave({ name: name.trim(), prompt })}>
+                <Save />保存
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+      {readOnly && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Lock className="size-3" />
+          {persona.is_default_template ? "模板人设不能修改，复制后可以在副本上编辑" : "这个人设不是你创建的，不能修改"}
+        </div>
+      )}
+      <Textarea className="min-h-[200px] font-mono text-sm" value={prompt} disabled={readOnly} onChange={(event) => setPrompt(event.target.value)} />
+      <PersonaPreview prompt={prompt} />
+    </div>
+  );
+}
+
+/** 学员管理自己的 AI 人设：从模板复制、编辑提示词并试聊、设置每门课程的默认人设 */
+export function PersonaManager() {
+  const userId = getLoginUser()?.user_id ?? "";
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { data: courses } = useAutoCache(courseServer.search, [{ limit: 1000, page: 1 }], undefined, undefined, { tags: [courseListTag] });
+  const courseId = searchParams.get("courseId") ?? courses?.data[0]?.course_id ?? "";
+  const { loading, error, data } = useAutoCache(aiChatServer.getPersonas, [courseId, userId], undefined, undefined, { tags: [personasTag] });
+  const personas = data?.data ?? [];
+  const selected = personas.find((persona) => persona.persona_id === selectedId) ?? personas[0];
+
+  async function run(action: () => Promise<void>, fallback: string) {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(fallback, error);
+      alert(errorMessage(error, fallback));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function clone(persona: AiPersona) {
+    run(async () => {
+      const created = await aiChatServer.createPersona({ userId, courseId, name: `${persona.name}（副本）`, prompt: persona.prompt });
+      setSelectedId(created.data.persona_id);
+    }, "复制人设失败");
+  }
+
+  function save(persona: AiPersona, values: { name: string; prompt: string }) {
+    run(async () => {
+      await aiChatServer.updatePersona(persona.persona_id, { userId, courseId, ...values });
+    }, "保存人设失败");
+  }
+
+  function remove(persona: AiPersona) {
+    if (!confirm(`确定删除人设“${persona.name}”吗？`)) return;
+    run(async () => {
+      await aiChatServer.deletePersona(persona.persona_id);
+      setSelectedId(null);
+    }, "删除人设失败");
+  }
+
+  function setDefault(persona: AiPersona) {
+    run(async () => {
+      await aiChatServer.setDefaultPersona({ userId, courseId, personaId: persona.persona_id });
+    }, "设置默认人设失败");
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">我的人设</h2>
+        <Select
+          value={courseId}
+          onValueChange={(value) => {
+            setSearchParams({ courseId: value });
+            setSelectedId(null);
+          }}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="选择课程" />
+          </SelectTrigger>
+          <SelectContent>
+            {courses?.data.map((course) => (
+              <SelectItem key={course.course_id} value={course.course_id}>{course.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {loading ? (
+        <div>loading...</div>
+      ) : error ? (
+        <div>{error.message}</div>
+      ) : (
+        <div className="flex min-h-0 flex-1 gap-4">
+          <div className="flex w-[220px] shrink-0 flex-col gap-1">
+            {personas.map((persona) => (
+              <button
+                key={persona.persona_id}
+                type="button"
+                className={cn(
+                  "flex items-center gap-2 rounded-md px-3 py-2 text-left text-sm hover:bg-muted",
+                  persona.persona_id === selected?.persona_id && "bg-muted font-medium",
+                )}
+                onClick={() => setSelectedId(persona.persona_id)}
+              >
+                <span className="flex-1 truncate">{persona.name}</span>
+                {persona.is_user_default && <Star className="size-3 fill-current text-primary" />}
+                {persona.is_default_template && <Badge variant="secondary">模板</Badge>}
+              </button>
+            ))}
+            {personas.length === 0 && <div className="text-sm text-muted-foreground">还没有可用的人设</div>}
+          </div>
+          {selected && (
+            <PersonaEditor
+              key={selected.persona_id}
+              persona={selected}
+              readOnly={!isOwnPersona(selected, userId)}
+              busy={busy || !courseId}
+              onClone={() => clone(selected)}
+              onSave={(values) => save(selected, values)}
+              onDelete={() => remove(selected)}
+              onSetDefault={() => setDefault(selected)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { VideoPlayer } from '@/components/video-player';
 import { useAutoCache } from '@/containers/auto-cache';
-import { courseServer, exerciseResultServer, sectionsServer } from '@/server/training-server';
+import { courseServer, courseTag, exerciseResultServer, exerciseResultsTag, sectionsServer, sectionTag } from '@/server/training-server';
 import { useNavigate, useParams, useSearchParams } from 'react-router';
 import { Response } from '@/components/ui/shadcn-io/ai/response';
 import { SectionHeader } from '@/components/section-header';
@@ -12,6 +12,7 @@ import { getLoginUser } from '@/containers/auth-middleware';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { aiLearningReview } from '@/components/ai-conversation';
+import { emitAppEvent } from '@/lib/app-events';
 import { scrollCenterTop } from '@/components/app-left-sidebar';
 
 export function SectionDetail() {
@@ -21,14 +22,14 @@ export function SectionDetail() {
   const mode = searchParams.get('mode');
   const [stage, setStage] = useState<Stage>(mode === 'review' ? 'compare' : 'video');
   const [trigger, setTrigger] = useState(1);
-  const { loading, error, data } = useAutoCache(sectionsServer.getById.bind(sectionsServer), [{ section_id: params.sectionId }]);
-  const { data: courseData } = useAutoCache(courseServer.getCourseChaptersSections.bind(sectionsServer), [{ course_id: params.courseId, user_id: getLoginUser()?.user_id }]);
-  const { loading: nextSectionLoading, data: nextSection } = useAutoCache(courseServer.getNextSections.bind(courseServer), [
+  const { loading, error, data } = useAutoCache(sectionsServer.getById, [{ section_id: params.sectionId }], undefined, undefined, { tags: [sectionTag(params.sectionId)] });
+  const { data: courseData } = useAutoCache(courseServer.getCourseChaptersSections, [{ course_id: params.courseId, user_id: getLoginUser()?.user_id }], undefined, undefined, { tags: [courseTag(params.courseId)] });
+  const { loading: nextSectionLoading, data: nextSection } = useAutoCache(courseServer.getNextSections, [
     getLoginUser()?.user_id,
     params.courseId,
     params.sectionId,
   ]);
-  const { data: exerciseResult } = useAutoCache(exerciseResultServer.getExerciseResults, [{ user_id: getLoginUser()?.user_id, section_id: params.sectionId }], undefined, trigger);
+  const { data: exerciseResult } = useAutoCache(exerciseResultServer.getExerciseResults, [{ user_id: getLoginUser()?.user_id, section_id: params.sectionId }], undefined, trigger, { tags: [exerciseResultsTag(params.sectionId)] });
   const [videoCompleted, setVideoCompleted] = useState(false);
   const [isExaminationPassed, setIsExaminationPassed] = useState(mode === 'review' ? true : false);
   const [hasSubmittedExam, setHasSubmittedExam] = useState(false); 
@@ -108,6 +109,10 @@ export function SectionDetail() {
   };
 
   const onPass = async () => {
+    // 复习已完成的章节时不再重复通知
+    if (params.sectionId && !isCompleted) {
+      emitAppEvent('section:completed', { sectionId: params.sectionId });
+    }
     setIsExaminationPassed(true);
     setStage('compare');
     setTrigger(trigger + 1);
@@ -0,0 +1,305 @@
+import { z } from "zod";
+import { SchemaMismatchError } from "@/lib/http-error";
+
+/**
+ * 技能培训后端接口的响应结构校验
+ * 开发环境下结构不一致直接抛出 SchemaMismatchError，方便尽早发现后端字段变更；
+ * 生产环境下只打印警告，对不上的字段保留原值，其余字段照常转换，避免整个页面因为一个字段不可用。
+ * 所有对象都用 looseObject，后端新增字段不会被丢掉。
+ */
+
+/** 后端可能返回 null 的可选字段 */
+const optionalString = z.string().nullish().transform((value) => value ?? undefined);
+const optionalNumber = z.coerce.number().nullish().transform((value) => value ?? undefined);
+/** 0: lock, 1: learning, 2: pass，未加入课程时后端返回 null */
+const unlockState = z.number().nullable();
+
+export const subtitleSchema = z.looseObject({
+  seq: z.coerce.number(),
+  start: z.string(),
+  end: z.string(),
+  text: z.string(),
+});
+
+export const knowledgePointsSchema = z.looseObject({
+  key_points: z
+    .array(
+      z.looseObject({
+        title: z.string(),
+        description: z.string(),
+        time: z.string(),
+      }),
+    )
+    .nullish()
+    .transform((value) => value ?? undefined),
+});
+
+export const sectionSchema = z.looseObject({
+  section_id: z.string(),
+  title: z.string(),
+  chapter_id: z.string(),
+  video_url: optionalString,
+  knowledge_points: knowledgePointsSchema.nullish().transform((value) => value ?? undefined),
+  video_subtitles: z.array(subtitleSchema).nullish().transform((value) => value ?? undefined),
+  knowledge_content: optionalString,
+  estimated_time: optionalNumber,
+  section_order: z.coerce.number(),
+  unlocked: unlockState,
+});
+
+export const chapterSchema = z.looseObject({
+  chapter_id: z.string(),
+  course_id: z.string(),
+  title: z.string(),
+  chapter_order: z.coerce.number(),
+  unlocked: unlockState,
+  sections: z.array(sectionSchema).optional(),
+});
+
+export const courseSchema = z.looseObject({
+  course_id: z.string(),
+  name: z.string(),
+  icon_url: optionalString,
+  description: optionalString,
+  default_ai_persona_id: optionalString,
+  chapters: z.array(chapterSchema).optional(),
+});
+
+export const exerciseOptionSchema = z.looseObject({
+  option_id: z.string(),
+  exercise_id: z.string(),
+  option_text: z.string(),
+  is_correct: z.boolean(),
+  image: optionalString,
+});
+
+export const exerciseSchema = z.looseObject({
+  exercise_id: z.string(),
+  section_id: optionalString,
+  question: z.string(),
+  /** '0' 单选，'1' 多选，'2' 简答 */
+  type_status: z.coerce.string(),
+  score: z.coerce.number(),
+  answer: z.string(),
+  options: z.array(exerciseOptionSchema).optional(),
+  image: optionalString,
+});
+
+export const exerciseResultComposeSchema = z.looseObject({
+  pass: z.boolean(),
+  user_score: z.coerce.number(),
+  score: z.coerce.number(),
+  ai_feedback: z.string().nullish().transform((value) => value ?? ""),
+  results: z.array(
+    z.looseObject({
+      exercise_id: z.string(),
+      user_score: z.coerce.number(),
+      score: optionalNumber,
+      ai_feedback: z.string().nullish().transform((value) => value ?? ""),
+      user_answer: z.string().nullish().transform((value) => value ?? ""),
+    }),
+  ),
+});
+
+/** 用户角色，老数据没有角色字段时按学员处理 */
+export const userRoleSchema = z
+  .enum(["learner", "instructor", "admin"])
+  .nullish()
+  .transform((value) => value ?? "learner");
+
+export const userSchema = z.looseObject({
+  user_id: z.string(),
+  name: z.string(),
+  role: userRoleSchema,
+  avatar_url: optionalString,
+  education_level: optionalString,
+  learning_ability: optionalString,
+  goal: optionalString,
+  level: optionalNumber,
+  experience: optionalNumber,
+  current_title_id: optionalString,
+});
+
+export const loginSchema = z.looseObject({
+  access_token: z.string(),
+  refresh_token: z.string(),
+  expires_in: optionalNumber,
+  user: userSchema,
+});
+
+export const aiPersonaSchema = z.looseObject({
+  persona_id: z.string(),
+  name: z.string(),
+  prompt: z.string(),
+  is_default_template: z.boolean(),
+  user_id: optionalString,
+  course_id: optionalString,
+  is_user_default: z.boolean().nullish().transform((value) => value ?? false),
+});
+
+export const sessionInfoSchema = z.looseObject({
+  session_id: z.string(),
+  user_id: z.string(),
+  section_id: z.string().nullable(),
+  persona_id: optionalString,
+  created_at: z.coerce.date(),
+});
+
+export const userSectionSessionsSchema = z.looseObject({
+  user_id: z.string(),
+  section_id: z.string().nullable(),
+  session_count: z.coerce.number(),
+  sessions: z.array(
+    z.looseObject({
+      session_id: z.string(),
+      interaction_count: z.coerce.number(),
+      first_interaction: z.coerce.date(),
+      last_interaction: z.coerce.date(),
+      title: optionalString,
+      preview: optionalString,
+      section_id: optionalString,
+      section_title: optionalString,
+      course_id: optionalString,
+      course_name: optionalString,
+    }),
+  ),
+});
+
+export const chatAttachmentSchema = z.looseObject({
+  url: z.string(),
+  name: z.string(),
+  type: z.string(),
+  size: optionalNumber,
+});
+
+export const sessionHistorySchema = z.looseObject({
+  session_id: z.string(),
+  message_count: z.coerce.number(),
+  history: z.array(
+    z.looseObject({
+      interaction_id: z.string(),
+      user_message: z.string(),
+      ai_response: z.string(),
+      query_time: z.coerce.date(),
+      user_name: optionalString,
+      section_title: optionalString,
+      persona_name: optionalString,
+      attachments: z.array(chatAttachmentSchema).nullish().transform((value) => value ?? undefined),
+      /** null 表示会话的第一轮，旧数据没有这个字段 */
+      parent_interaction_id: z.string().nullish(),
+    }),
+  ),
+});
+
+export const answerFeedbackSchema = z.looseObject({
+  feedback_id: z.string(),
+  interaction_id: z.string(),
+  user_id: z.string(),
+  user_name: optionalString,
+  rating: z.enum(["up", "down"]),
+  reasons: z.array(z.string()).nullish().transform((value) => value ?? []),
+  comment: optionalString,
+  created_at: z.coerce.date(),
+  user_message: optionalString,
+  ai_response: optionalString,
+  course_name: optionalString,
+  section_title: optionalString,
+  persona_name: optionalString,
+});
+
+/** 对话里生成的练习题，只用于自测，和正式习题分开 */
+export const practiceQuestionSchema = z.looseObject({
+  question_id: z.string(),
+  type: z.enum(["single", "multiple", "short"]),
+  question: z.string(),
+  options: z
+    .array(
+      z.looseObject({
+        option_id: z.string(),
+        option_text: z.string(),
+        is_correct: z.boolean(),
+      }),
+    )
+    .nullish()
+    .transform((value) => value ?? []),
+  /** 选择题是解析，简答题是参考答案 */
+  answer: z.string(),
+  score: z.coerce.number(),
+});
+
+export const practiceQuizSchema = z.looseObject({
+  quiz_id: z.string(),
+  questions: z.array(practiceQuestionSchema),
+});
+
+export const practiceGradeSchema = z.looseObject({
+  score: z.coerce.number(),
+  feedback: z.string(),
+});
+
+export const leadingQuestionSchema = z.looseObject({
+  question_id: z.string(),
+  section_id: z.string(),
+  question: z.string(),
+});
+
+export const uploadedFileSchema = z.looseObject({
+  url: z.string(),
+  name: optionalString,
+  size: optionalNumber,
+});
+
+/** 开发环境严格校验，生产环境只警告 */
+const strict = import.meta.env.DEV;
+
+/** 校验失败的字段保留原值，其余字段照常转换 */
+function keepInput<T extends z.ZodType>(schema: T) {
+  return schema.catch((ctx) => ctx.input as z.output<T>);
+}
+
+/** 解析不了的日期用的兜底值，调用方拿到的始终是能调用 getTime()、toISOString() 的 Date */
+const FALLBACK_DATE = new Date(0);
+
+/**
+ * 生成宽松版的结构：对象的每个字段、数组的每一项单独兜底
+ * 一个字段和后端对不上时，其他字段的日期、数字转换依然生效，不会整个响应都变成原始数据
+ * 日期字段不保留原值，换成 FALLBACK_DATE，避免类型声明是 Date 实际却是字符串
+ */
+function lenient(schema: z.ZodType): z.ZodType {
+  if (schema instanceof z.ZodDate) {
+    return schema.catch(() => new Date(FALLBACK_DATE));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = Object.fromEntries(Object.entries(schema.shape).map(([key, field]) => [key, keepInput(lenient(field as z.ZodType))]));
+    return z.looseObject(shape);
+  }
+  if (schema instanceof z.ZodArray) {
+    return z.array(keepInput(lenient(schema.element as z.ZodType)));
+  }
+  if (schema instanceof z.ZodOptional) {
+    return lenient(schema.unwrap() as z.ZodType).optional();
+  }
+  if (schema instanceof z.ZodNullable) {
+    return lenient(schema.unwrap() as z.ZodType).nullable();
+  }
+  return schema;
+}
+
+/**
+ * 校验 `Status<T>` 中的 data 字段
+ * @param schema data 的结构
+ * @param body 接口返回的完整响应体
+ * @param endpoint 接口地址，用于错误提示
+ */
+export function parseStatus<S extends { data: unknown }>(schema: z.ZodType, body: S, endpoint: string): S {
+  const result = schema.safeParse(body.data);
+  if (result.success) {
+    return { ...body, data: result.data };
+  }
+  const error = new SchemaMismatchError(endpoint, result.error.issues);
+  if (strict) {
+    throw error;
+  }
+  console.warn(error.message, result.error.issues);
+  return { ...body, data: keepInput(lenient(schema)).parse(body.data) };
+}
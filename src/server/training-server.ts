@@ -1,4 +1,29 @@
-import { HttpClient } from "@/lib/http-client";
+import { HttpClient, idempotentRetry } from "@/lib/http-client";
+import { errorFromFetchResponse, toTrainingApiError } from "@/lib/http-error";
+import { authHeaders, refreshTokens } from "@/lib/auth-token";
+import { chatStreamFormatOf, parseChatStream } from "@/lib/chat-stream";
+import { invalidateQueries, queryCache, queryKeyOf } from "@/lib/query-cache";
+import { z } from "zod";
+import {
+  aiPersonaSchema,
+  answerFeedbackSchema,
+  chapterSchema,
+  courseSchema,
+  exerciseOptionSchema,
+  exerciseResultComposeSchema,
+  exerciseSchema,
+  leadingQuestionSchema,
+  loginSchema,
+  uploadedFileSchema,
+  parseStatus,
+  practiceGradeSchema,
+  practiceQuizSchema,
+  sectionSchema,
+  sessionHistorySchema,
+  sessionInfoSchema,
+  userSchema,
+  userSectionSessionsSchema,
+} from "./training-schema";
 import hookFetch from "hook-fetch";
 import { sseTextDecoderPlugin } from "hook-fetch/plugins/sse";
 
@@ -16,6 +41,9 @@ const modelEnum = [
   "/exercise-results",
   "/users",
   "/leading-questions",
+  "/auth",
+  "/exercise-options",
+  "/files",
 ] as const;
 
 export interface Pagination {
@@ -43,26 +71,48 @@ export interface Status<T> {
 export class TrainingServer<T> {
   http: HttpClient;
   baseUrl = "";
+  /** 单条数据的结构，用于校验 search、getById 的响应 */
+  entitySchema?: z.ZodType;
   constructor(
     model: (typeof modelEnum)[number] = "/health",
-    schema: string = serverHost
+    schema: string = serverHost,
+    entitySchema?: z.ZodType
   ) {
     this.http = new HttpClient();
     this.baseUrl = schema + model;
+    this.entitySchema = entitySchema;
   }
-  search = async (data?: Partial<T> & PaginationParam) => {
-    return (
+  /** 按 schema 校验响应体中的 data，没有配置 schema 时原样返回 */
+  protected validate<S extends { data: unknown }>(
+    schema: z.ZodType | undefined,
+    body: S,
+    path: string
+  ): S {
+    return schema ? parseStatus(schema, body, this.baseUrl + path) : body;
+  }
+  search = async (data?: Partial<T> & PaginationParam, options?: { signal?: AbortSignal }) => {
+    const body = (
       await this.http.post<Status<T[]>>("/search", data, {
         baseURL: this.baseUrl,
+        retry: idempotentRetry,
+        signal: options?.signal,
       })
     ).data;
+    return this.validate(
+      this.entitySchema && z.array(this.entitySchema),
+      body,
+      "/search"
+    );
   };
-  getById = async (data: Partial<T>) => {
-    return (
+  getById = async (data: Partial<T>, options?: { signal?: AbortSignal }) => {
+    const body = (
       await this.http.post<Status<T>>("/getById", data, {
         baseURL: this.baseUrl,
+        retry: idempotentRetry,
+        signal: options?.signal,
       })
     ).data;
+    return this.validate(this.entitySchema?.nullable(), body, "/getById");
   };
   add = async (data: Partial<T>) => {
     return (
@@ -97,19 +147,21 @@ export interface CourseResponse {
 /** 调用课程接口的类，继承了基本增删改查的接口 */
 export class CourseServer extends TrainingServer<CourseResponse> {
   constructor() {
-    super("/courses");
+    super("/courses", serverHost, courseSchema);
   }
 
   getCourseChaptersSections = async (
-    data: Partial<CourseResponse & { user_id?: string }>
+    data: Partial<CourseResponse & { user_id?: string }>,
+    options?: { signal?: AbortSignal }
   ) => {
-    return (
+    const body = (
       await this.http.post<Status<CourseResponse>>(
         "/getCourseChaptersSections",
         data,
-        { baseURL: this.baseUrl }
+        { baseURL: this.baseUrl, retry: idempotentRetry, signal: options?.signal }
       )
     ).data;
+    return this.validate(courseSchema, body, "/getCourseChaptersSections");
   };
 
   getNextSections = async (
@@ -120,13 +172,12 @@ export class CourseServer extends TrainingServer<CourseResponse> {
     if (!courseId || !sectionId) {
       return null;
     }
-    const course = (
-      await this.http.post<Status<CourseResponse>>(
-        "/getCourseChaptersSections",
-        { course_id: courseId, user_id },
-        { baseURL: this.baseUrl }
-      )
-    ).data;
+    // 和页面上的课程大纲共用缓存，避免重复请求
+    const params = [{ course_id: courseId, user_id }] as const;
+    const course = await queryCache.fetch(
+      queryKeyOf(this.getCourseChaptersSections, [...params]),
+      (signal) => this.getCourseChaptersSections(...params, { signal })
+    );
     const allSections: SectionResponse[] = [];
     if (course.data.chapters) {
       for (const chapter of course.data.chapters) {
@@ -149,6 +200,15 @@ export class CourseServer extends TrainingServer<CourseResponse> {
 }
 export const courseServer = new CourseServer();
 
+/** 课程列表的缓存标签，新建或删除课程后失效 */
+export const courseListTag = "courses";
+
+/** 某门课程（含章节大纲）的缓存标签，编辑课程内容后失效 */
+export const courseTag = (courseId?: string) => `course:${courseId}`;
+
+/** 某一节内容的缓存标签，编辑小节后失效 */
+export const sectionTag = (sectionId?: string) => `section:${sectionId}`;
+
 export interface ChapterResponse {
   chapter_id: string;
   course_id: string;
@@ -162,7 +222,7 @@ export interface ChapterResponse {
 /** 调用课程章接口的类，继承了基本增删改查的接口 */
 export class ChapterServer extends TrainingServer<ChapterResponse> {
   constructor() {
-    super("/chapters");
+    super("/chapters", serverHost, chapterSchema);
   }
 }
 export const chapterServer = new ChapterServer();
@@ -198,7 +258,7 @@ export type SectionResponse = {
 /** 调用课程节数据接口的类，继承了基本增删改查的接口 */
 export class SectionServer extends TrainingServer<SectionResponse> {
   constructor() {
-    super("/sections");
+    super("/sections", serverHost, sectionSchema);
   }
   /** 可以这样写调用后端复杂的接口 */
   someApi = async () => {
@@ -224,6 +284,40 @@ interface SessionInfo {
   created_at: Date;
 }
 
+/**
+ * 随消息发送的附件，文件先通过 fileServer 上传，这里只带上传后的地址
+ */
+export interface ChatAttachment {
+  url: string;
+  name: string;
+  /** MIME 类型，例如 image/png、application/pdf */
+  type: string;
+  size?: number;
+}
+
+/**
+ * 斜杠命令，例如 /explain 的 name 是 explain，input 是要解释的文字
+ */
+export interface ChatCommand {
+  name: string;
+  input?: string;
+}
+
+/**
+ * 提问时视频画面的上下文，从视频播放器发起提问时附带
+ */
+export interface VideoContext {
+  sectionId?: string;
+  /** 提问时播放到的秒数 */
+  time: number;
+  /** 正在显示的字幕 */
+  subtitle?: Subtitle;
+  /** 当前字幕和前后几条字幕，按时间顺序 */
+  subtitleWindow: Subtitle[];
+  /** 最近一个已经开始的知识点 */
+  keyPoint?: NonNullable<KnowledgePoints["key_points"]>[number];
+}
+
 /**
  * AI聊天接口请求体，日常聊天复用该结构体
  */
@@ -231,6 +325,17 @@ interface ChatRequest {
   userId: string;
   sectionId: string;
   message?: string;
+  attachments?: ChatAttachment[];
+  /** 通过斜杠命令发出的消息，后端据此选用对应的提示词 */
+  command?: ChatCommand;
+  /** 提问时视频播放到的秒数 */
+  videoTime?: number;
+  videoContext?: VideoContext;
+  /**
+   * 这条提问接在哪一轮对话之后，null 表示从会话开头提问
+   * 重新生成和修改提问时指向分叉点之前的一轮，后端只把这条路径上的对话当作上下文，被替换的分支不会混进来
+   */
+  parentInteractionId?: string | null;
   personaId?: string;
   sessionId?: string;
   useAudio?: boolean;
@@ -256,11 +361,20 @@ interface ChatResponse {
 /**
  * 用户章节会话信息
  */
-interface SessionSummary {
+export interface SessionSummary {
   session_id: string;
   interaction_count: number;
   first_interaction: Date;
   last_interaction: Date;
+  /** 用户重命名后的标题 */
+  title?: string;
+  /** 第一条提问，用于会话列表预览 */
+  preview?: string;
+  /** 不按章节查询时，后端会带上会话所属的章节和课程 */
+  section_id?: string;
+  section_title?: string;
+  course_id?: string;
+  course_name?: string;
 }
 
 /**
@@ -276,7 +390,7 @@ interface UserSectionSessionsResponse {
 /**
  * 会话历史消息
  */
-interface HistoryMessage {
+export interface HistoryMessage {
   interaction_id: string;
   user_message: string;
   ai_response: string;
@@ -284,17 +398,62 @@ interface HistoryMessage {
   user_name?: string;
   section_title?: string;
   persona_name?: string;
+  /** 用户提问时附带的图片或文件 */
+  attachments?: ChatAttachment[];
+  /** 这轮对话接在哪一轮之后，null 是会话的第一轮；旧数据没有这个字段，按列表顺序依次相接 */
+  parent_interaction_id?: string | null;
 }
 
 /**
  * 会话历史响应
  */
-interface SessionHistoryResponse {
+export interface SessionHistoryResponse {
   session_id: string;
   message_count: number;
   history: HistoryMessage[];
 }
 
+/** 点踩时可选的原因 */
+export const answerFeedbackReasons = {
+  incorrect: "内容有错误",
+  off_topic: "答非所问",
+  unclear: "讲得不清楚",
+  inconsistent: "和课程内容不一致",
+  inappropriate: "不安全或不恰当",
+} as const;
+
+export type AnswerFeedbackReason = keyof typeof answerFeedbackReasons;
+
+/**
+ * 对一条 AI 回答的反馈
+ */
+export interface AnswerFeedbackRequest {
+  interactionId: string;
+  userId: string;
+  rating: "up" | "down";
+  reasons?: AnswerFeedbackReason[];
+  comment?: string;
+}
+
+/**
+ * 反馈列表中的一条，附带被反馈的提问和回答
+ */
+export interface AnswerFeedback {
+  feedback_id: string;
+  interaction_id: string;
+  user_id: string;
+  user_name?: string;
+  rating: "up" | "down";
+  reasons: string[];
+  comment?: string;
+  created_at: Date;
+  user_message?: string;
+  ai_response?: string;
+  course_name?: string;
+  section_title?: string;
+  persona_name?: string;
+}
+
 /**
  * AI流式聊天响应
  */
@@ -316,7 +475,59 @@ export interface AiPersona {
   persona_id: string;
   name: string;
   prompt: string;
+  /** 模板人设所有人可用，只读 */
   is_default_template: boolean;
+  /** 学员自建人设的创建者 */
+  user_id?: string;
+  /** 学员自建人设所属的课程 */
+  course_id?: string;
+  /** 是否是当前用户在这门课程的默认人设，查询时传了 courseId 和 userId 才有意义 */
+  is_user_default: boolean;
+}
+
+/**
+ * 创建或修改学员自己的人设
+ */
+export interface PersonaRequest {
+  userId: string;
+  courseId: string;
+  name: string;
+  prompt: string;
+}
+
+/**
+ * 编辑人设时试聊，不创建会话也不保存记录
+ */
+interface PersonaPreviewRequest {
+  prompt: string;
+  messages: { role: "user" | "assistant"; content: string }[];
+  modelName?: string;
+}
+
+/**
+ * 对话里的练习题，选择题在前端判分，简答题由 AI 批改，都不计入正式成绩
+ */
+export interface PracticeQuestion {
+  question_id: string;
+  type: "single" | "multiple" | "short";
+  question: string;
+  options: { option_id: string; option_text: string; is_correct: boolean }[];
+  /** 选择题是解析，简答题是参考答案 */
+  answer: string;
+  score: number;
+}
+
+export interface PracticeQuiz {
+  quiz_id: string;
+  questions: PracticeQuestion[];
+}
+
+/**
+ * 简答题的 AI 批改结果
+ */
+export interface PracticeGrade {
+  score: number;
+  feedback: string;
 }
 
 export interface LeadingQuestionResponse {
@@ -346,13 +557,54 @@ export class AIChatServer extends TrainingServer<SessionInfo> {
   //https://jsonlee12138.github.io/hook-fetch/docs/streaming/#%E4%BD%BF%E7%94%A8-sse-%E6%8F%92%E4%BB%B6
 
   constructor() {
-    super("/ai-chat");
+    super("/ai-chat", serverHost, sessionInfoSchema);
   }
 
   new = async (data: CreateSessionRequest) => {
-    return this.http.post<Status<SessionInfo>>("/sessions/new", data, {
-      baseURL: this.baseUrl,
-    });
+    const response = await this.http.post<Status<SessionInfo>>(
+      "/sessions/new",
+      data,
+      { baseURL: this.baseUrl }
+    );
+    response.data = this.validate(
+      sessionInfoSchema,
+      response.data,
+      "/sessions/new"
+    );
+    invalidateQueries(sessionsTag(data.sectionId));
+    return response;
+  };
+
+  /**
+   * 重命名会话
+   */
+  renameSession = async (
+    sessionId: string,
+    title: string,
+    sectionId?: string
+  ) => {
+    const body = (
+      await this.http.put<Status<SessionInfo>>(
+        `/sessions/${sessionId}`,
+        { title },
+        { baseURL: this.baseUrl }
+      )
+    ).data;
+    invalidateQueries(sessionsTag(sectionId));
+    return body;
+  };
+
+  /**
+   * 删除会话及其对话历史
+   */
+  deleteSession = async (sessionId: string, sectionId?: string) => {
+    const body = (
+      await this.http.delete(`/sessions/${sessionId}`, {
+        baseURL: this.baseUrl,
+      })
+    ).data as Status<null>;
+    invalidateQueries(sessionsTag(sectionId));
+    return body;
   };
 
   chat = async (data: ChatRequest) => {
@@ -361,24 +613,40 @@ export class AIChatServer extends TrainingServer<SessionInfo> {
     });
   };
 
+  /**
+   * 流式对话接口，返回结构化事件流
+   * 纯文本接口的每个文本块会被当作 text-delta 事件，见 `parseChatStream`
+   * 传入 signal 可以中止请求，读取中途中止时迭代会抛出 AbortError
+   */
   textStream = async (
     path: string,
-    data: ChatRequest,
-    options?: {
-      // splitSeparator?: string;
-      // chunkSize?:number
-      // chunkSpeed?:number
-    }
+    data: ChatRequest | PersonaPreviewRequest,
+    options?: { signal?: AbortSignal }
   ) => {
-    // const splitSeparator = options?.splitSeparator || "\n";
-
-    const response = await fetch(`${this.baseUrl + path}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(data),
-    });
+    const request = () =>
+      fetch(`${this.baseUrl + path}`, {
+        method: "POST",
+        signal: options?.signal,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/x-ndjson, text/event-stream, text/plain",
+          ...authHeaders(),
+        },
+        body: JSON.stringify(data),
+      });
+    let response: Response;
+    try {
+      response = await request();
+      // 流式接口不走 Axios 拦截器，这里单独处理令牌过期
+      if (response.status === 401 && (await refreshTokens())) {
+        response = await request();
+      }
+    } catch (error) {
+      throw toTrainingApiError(error);
+    }
+    if (!response.ok) {
+      throw await errorFromFetchResponse(response);
+    }
     const textStreamReader = response.body
       ?.pipeThrough(new TextDecoderStream())
       .getReader();
@@ -393,14 +661,19 @@ export class AIChatServer extends TrainingServer<SessionInfo> {
           yield value;
         }
       } finally {
+        // 提前结束迭代（停止生成、离开页面）时取消底层连接，避免后端继续推送
+        await textStreamReader.cancel().catch(() => {});
         textStreamReader.releaseLock?.();
       }
     };
-    return res();
+    return parseChatStream(
+      res(),
+      chatStreamFormatOf(response.headers.get("Content-Type"))
+    );
   };
 
-  textChatStream = (data: ChatRequest) => {
-    return this.textStream("/chat/stream", data);
+  textChatStream = (data: ChatRequest, options?: { signal?: AbortSignal }) => {
+    return this.textStream("/chat/stream", data, options);
   };
 
   sseStream = (data: ChatRequest, splitSeparator = "\n") => {
@@ -427,39 +700,122 @@ export class AIChatServer extends TrainingServer<SessionInfo> {
   /**
    * 获取用户在指定章节的所有会话列表
    */
-  getSessionsByUserAndSection = async (userId: string, sectionId?: string) => {
-    return this.http.get<Status<UserSectionSessionsResponse>>(
+  getSessionsByUserAndSection = async (userId: string, sectionId?: string, options?: { signal?: AbortSignal }) => {
+    const response = await this.http.get<Status<UserSectionSessionsResponse>>(
       "/sessionID/by-user-section",
       {
         baseURL: this.baseUrl,
         params: { userId, sectionId },
+        retry: idempotentRetry,
+        signal: options?.signal,
       }
     );
+    response.data = this.validate(
+      userSectionSessionsSchema,
+      response.data,
+      "/sessionID/by-user-section"
+    );
+    return response;
   };
 
   /**
    * 获取会话的对话历史
    */
-  getSessionHistory = async (sessionId: string, withoutInner: boolean) => {
-    return this.http.get<Status<SessionHistoryResponse>>(
+  getSessionHistory = async (sessionId: string, withoutInner: boolean, options?: { signal?: AbortSignal }) => {
+    const response = await this.http.get<Status<SessionHistoryResponse>>(
       `/history/${sessionId}`,
-      { baseURL: this.baseUrl, params: { withoutInner } }
+      { baseURL: this.baseUrl, params: { withoutInner }, retry: idempotentRetry, signal: options?.signal }
     );
+    response.data = this.validate(
+      sessionHistorySchema,
+      response.data,
+      "/history"
+    );
+    return response;
   };
 
   /**
    * 获取当前课程所有人设列表
    */
-  getPersonas = async (courseId?: string, userId?: string) => {
-    return (
+  getPersonas = async (courseId?: string, userId?: string, options?: { signal?: AbortSignal }) => {
+    const body = (
       await this.http.get<Status<AiPersona[]>>("/personas", {
         baseURL: this.baseUrl,
         params: {
           ...(courseId ? { courseId } : {}),
           ...(userId ? { userId } : {}),
         },
+        retry: idempotentRetry,
+        signal: options?.signal,
       })
     ).data;
+    return this.validate(z.array(aiPersonaSchema), body, "/personas");
+  };
+
+  /**
+   * 新建学员自己的人设，复制模板时把模板的提示词带过来即可
+   */
+  createPersona = async (data: PersonaRequest) => {
+    const body = (
+      await this.http.post<Status<AiPersona>>("/personas", data, {
+        baseURL: this.baseUrl,
+      })
+    ).data;
+    invalidateQueries(personasTag);
+    return this.validate(aiPersonaSchema, body, "/personas");
+  };
+
+  /**
+   * 修改学员自己的人设，模板人设后端会拒绝
+   */
+  updatePersona = async (personaId: string, data: PersonaRequest) => {
+    const body = (
+      await this.http.put<Status<AiPersona>>(`/personas/${personaId}`, data, {
+        baseURL: this.baseUrl,
+      })
+    ).data;
+    invalidateQueries(personasTag);
+    return this.validate(aiPersonaSchema, body, "/personas");
+  };
+
+  /**
+   * 删除学员自己的人设
+   */
+  deletePersona = async (personaId: string) => {
+    const body = (
+      await this.http.delete(`/personas/${personaId}`, {
+        baseURL: this.baseUrl,
+      })
+    ).data as Status<null>;
+    invalidateQueries(personasTag);
+    return body;
+  };
+
+  /**
+   * 设置用户在一门课程里的默认人设，新会话默认使用它
+   */
+  setDefaultPersona = async (data: {
+    userId: string;
+    courseId: string;
+    personaId: string;
+  }) => {
+    const body = (
+      await this.http.put<Status<null>>("/personas/default", data, {
+        baseURL: this.baseUrl,
+      })
+    ).data;
+    invalidateQueries(personasTag);
+    return body;
+  };
+
+  /**
+   * 用编辑中的提示词试聊
+   */
+  previewPersona = (
+    data: PersonaPreviewRequest,
+    options?: { signal?: AbortSignal }
+  ) => {
+    return this.textStream("/personas/preview", data, options);
   };
 
   /**
@@ -478,13 +834,88 @@ export class AIChatServer extends TrainingServer<SessionInfo> {
   /**
    * 生成学习总结评语
    */
-  learningReview = (data: {
+  learningReview = (
+    data: {
+      userId: string;
+      sectionId: string;
+      sessionId: string;
+      modelName?: string;
+    },
+    options?: { signal?: AbortSignal }
+  ) => {
+    return this.textStream("/learning-review", { ...data }, options);
+  };
+
+  /**
+   * 根据章节内容生成练习题，题目只在对话里作答，不写入习题和成绩
+   */
+  generatePracticeQuiz = async (data: {
+    userId: string;
+    sectionId: string;
+    sessionId?: string;
+    count?: number;
+    modelName?: string;
+  }, options?: { signal?: AbortSignal }) => {
+    const body = (
+      await this.http.post<Status<PracticeQuiz>>("/practice-quiz", data, {
+        baseURL: this.baseUrl,
+        signal: options?.signal,
+      })
+    ).data;
+    return this.validate(practiceQuizSchema, body, "/practice-quiz");
+  };
+
+  /**
+   * AI 批改练习题里的简答题
+   */
+  gradePracticeAnswer = async (data: {
     userId: string;
     sectionId: string;
-    sessionId: string;
+    quizId: string;
+    questionId: string;
+    question: string;
+    referenceAnswer: string;
+    answer: string;
+    score: number;
     modelName?: string;
   }) => {
-    return this.textStream("/learning-review", { ...data });
+    const body = (
+      await this.http.post<Status<PracticeGrade>>("/practice-quiz/grade", data, {
+        baseURL: this.baseUrl,
+      })
+    ).data;
+    return this.validate(practiceGradeSchema, body, "/practice-quiz/grade");
+  };
+
+  /**
+   * 提交对一条回答的反馈，同一轮对话重复提交时以最后一次为准
+   */
+  submitFeedback = async (data: AnswerFeedbackRequest) => {
+    const body = (
+      await this.http.post<Status<AnswerFeedback>>("/feedback", data, {
+        baseURL: this.baseUrl,
+      })
+    ).data;
+    invalidateQueries(feedbackTag);
+    return body;
+  };
+
+  /**
+   * 分页获取回答反馈，讲师端用来排查有问题的回答
+   */
+  getFeedbackList = async (
+    params: PaginationParam & { rating?: "up" | "down" },
+    options?: { signal?: AbortSignal }
+  ) => {
+    const body = (
+      await this.http.get<Status<AnswerFeedback[]>>("/feedback", {
+        baseURL: this.baseUrl,
+        params,
+        retry: idempotentRetry,
+        signal: options?.signal,
+      })
+    ).data;
+    return this.validate(z.array(answerFeedbackSchema), body, "/feedback");
   };
 
   /**
@@ -496,15 +927,24 @@ export class AIChatServer extends TrainingServer<SessionInfo> {
         all?: Array<{ id: string; name: string; displayName: string }>;
         default?: string;
       };
-    }>(`${this.baseUrl}/models`);
+    }>(`${this.baseUrl}/models`, { retry: idempotentRetry });
   };
 }
 
 export const aiChatServer = new AIChatServer();
 
+/** 人设列表的缓存标签，新建、修改、删除人设或设置默认人设后失效 */
+export const personasTag = "personas";
+
+/** 回答反馈列表的缓存标签，提交反馈后失效 */
+export const feedbackTag = "feedback";
+
+/** 用户在某一节的会话列表的缓存标签，新建、重命名、删除会话或产生新对话后失效 */
+export const sessionsTag = (sectionId?: string) => `sessions:${sectionId ?? ""}`;
+
 class LeadingQuestionServer extends TrainingServer<LeadingQuestionResponse> {
   constructor() {
-    super("/leading-questions");
+    super("/leading-questions", serverHost, leadingQuestionSchema);
   }
 
   searchBySection = async (data: {
@@ -512,13 +952,20 @@ class LeadingQuestionServer extends TrainingServer<LeadingQuestionResponse> {
     page?: number;
     limit?: number;
   }) => {
-    return this.http.post<Status<LeadingQuestionResponse[]>>(
+    const response = await this.http.post<Status<LeadingQuestionResponse[]>>(
       "/searchBySection",
       data,
       {
         baseURL: this.baseUrl,
+        retry: idempotentRetry,
       }
     );
+    response.data = this.validate(
+      z.array(leadingQuestionSchema),
+      response.data,
+      "/searchBySection"
+    );
+    return response;
   };
 }
 
@@ -548,22 +995,39 @@ export interface ExerciseOption {
 
 class ExerciseServer extends TrainingServer<ExerciseResponse> {
   constructor() {
-    super("/exercises");
+    super("/exercises", serverHost, exerciseSchema);
   }
 
-  getExercisesWithOptionsBySection = async (data: Partial<SectionResponse>) => {
-    return (
+  getExercisesWithOptionsBySection = async (data: Partial<SectionResponse>, options?: { signal?: AbortSignal }) => {
+    const body = (
       await this.http.post<Status<ExerciseResponse[]>>(
         "/getExercisesWithOptionsBySection",
         data,
-        { baseURL: this.baseUrl }
+        { baseURL: this.baseUrl, retry: idempotentRetry, signal: options?.signal }
       )
     ).data;
+    return this.validate(
+      z.array(exerciseSchema),
+      body,
+      "/getExercisesWithOptionsBySection"
+    );
   };
 }
 
 export const exerciseServer = new ExerciseServer();
 
+/** 某一节测验题目的缓存标签，编辑题库后失效 */
+export const exercisesTag = (sectionId?: string) => `exercises:${sectionId}`;
+
+/** 调用题目选项接口的类，继承了基本增删改查的接口 */
+class ExerciseOptionServer extends TrainingServer<ExerciseOption> {
+  constructor() {
+    super("/exercise-options", serverHost, exerciseOptionSchema);
+  }
+}
+
+export const exerciseOptionServer = new ExerciseOptionServer();
+
 export interface Test {
   test_id: string;
   course_id?: string;
@@ -596,23 +1060,12 @@ export interface ExerciseResult {
   ai_feedback?: string;
 }
 
-const exrciseResultExample = {
-  pass: true,
-  user_score: 60,
-  score: 100,
-  ai_feedback: "",
-  results: [
-    {
-      exercise_id: "string",
-      user_score: 6,
-      core: 10,
-      ai_feedback: "string",
-      user_answer: "string",
-    },
-  ],
-};
+/** 某一节随堂测验结果的缓存标签，提交测验后失效 */
+export const exerciseResultsTag = (sectionId?: string) =>
+  `exercise-results:${sectionId}`;
 
-export type ExrciseResultCompose = typeof exrciseResultExample;
+/** 提交或查询一节课随堂测验的汇总结果 */
+export type ExrciseResultCompose = z.infer<typeof exerciseResultComposeSchema>;
 
 class ExerciseResultServer extends TrainingServer<ExerciseResponse> {
   constructor() {
@@ -628,35 +1081,51 @@ class ExerciseResultServer extends TrainingServer<ExerciseResponse> {
       user_answer?: string;
     }[];
   }) => {
-    return (
+    const body = (
       await this.http.post<Status<ExrciseResultCompose>>(
         "/saveExerciseResults",
         data,
         { baseURL: this.baseUrl }
       )
     ).data;
+    invalidateQueries(exerciseResultsTag(data.section_id));
+    return this.validate(
+      exerciseResultComposeSchema,
+      body,
+      "/saveExerciseResults"
+    );
   };
 
   getExerciseResults = async (data: {
     user_id: string;
     section_id?: string;
     test_result_id?: string;
-  }) => {
-    return (
+  }, options?: { signal?: AbortSignal }) => {
+    const body = (
       await this.http.post<Status<ExrciseResultCompose>>(
         "/getExerciseResults",
         data,
-        { baseURL: this.baseUrl }
+        { baseURL: this.baseUrl, retry: idempotentRetry, signal: options?.signal }
       )
     ).data;
+    // 还没有作答过时 data 为 null
+    return this.validate(
+      exerciseResultComposeSchema.nullable(),
+      body,
+      "/getExerciseResults"
+    );
   };
 }
 
 export const exerciseResultServer = new ExerciseResultServer();
 
+/** learner: 学员，instructor: 讲师，admin: 管理员 */
+export type UserRole = "learner" | "instructor" | "admin";
+
 export interface UserResponse {
   user_id: string;
   name: string;
+  role: UserRole;
   avatar_url?: string;
   education_level?: string;
   learning_ability?: string;
@@ -671,7 +1140,133 @@ export interface UserResponse {
 /** 调用课程接口的类，继承了基本增删改查的接口 */
 export class UserServer extends TrainingServer<UserResponse> {
   constructor() {
-    super("/users");
+    super("/users", serverHost, userSchema);
   }
 }
 export const userServer = new UserServer();
+
+/**
+ * 登录成功后返回的令牌
+ */
+export interface LoginResponse {
+  access_token: string;
+  refresh_token: string;
+  /** access token 有效期（秒） */
+  expires_in?: number;
+  user: UserResponse;
+}
+
+/** 调用登录鉴权接口的类 */
+export class AuthServer extends TrainingServer<UserResponse> {
+  constructor() {
+    super("/auth", serverHost, userSchema);
+  }
+
+  /** 账号密码登录 */
+  login = async (data: { username: string; password: string }) => {
+    const body = (
+      await this.http.post<Status<LoginResponse>>("/login", data, {
+        baseURL: this.baseUrl,
+        skipAuthRefresh: true,
+      })
+    ).data;
+    return this.validate(loginSchema, body, "/login");
+  };
+
+  /** 发送一次性登录验证码 */
+  sendCode = async (data: { phone: string }) => {
+    return (
+      await this.http.post<Status<{ expires_in: number }>>("/code", data, {
+        baseURL: this.baseUrl,
+        skipAuthRefresh: true,
+      })
+    ).data;
+  };
+
+  /** 验证码登录，账号不存在时后端会自动创建 */
+  loginByCode = async (data: { phone: string; code: string }) => {
+    const body = (
+      await this.http.post<Status<LoginResponse>>("/login/code", data, {
+        baseURL: this.baseUrl,
+        skipAuthRefresh: true,
+      })
+    ).data;
+    return this.validate(loginSchema, body, "/login/code");
+  };
+
+  /** 注册账号并直接登录 */
+  register = async (data: {
+    name: string;
+    username: string;
+    password: string;
+  }) => {
+    const body = (
+      await this.http.post<Status<LoginResponse>>("/register", data, {
+        baseURL: this.baseUrl,
+        skipAuthRefresh: true,
+      })
+    ).data;
+    return this.validate(loginSchema, body, "/register");
+  };
+
+  /** 用 refresh token 换取新的令牌 */
+  refresh = async (data: { refresh_token: string }) => {
+    const body = (
+      await this.http.post<Status<LoginResponse>>("/refresh", data, {
+        baseURL: this.baseUrl,
+        skipAuthRefresh: true,
+      })
+    ).data;
+    return this.validate(loginSchema, body, "/refresh");
+  };
+
+  /** 注销当前令牌 */
+  logout = async (data: { refresh_token?: string }) => {
+    return (
+      await this.http.post<Status<null>>("/logout", data, {
+        baseURL: this.baseUrl,
+        skipAuthRefresh: true,
+      })
+    ).data;
+  };
+
+  /** 获取当前令牌对应的用户，用于校验登录状态 */
+  me = async () => {
+    const body = (
+      await this.http.get<Status<UserResponse>>("/me", {
+        baseURL: this.baseUrl,
+      })
+    ).data;
+    return this.validate(userSchema, body, "/me");
+  };
+}
+export const authServer = new AuthServer();
+
+/**
+ * 上传文件后返回的访问地址
+ */
+export interface UploadedFile {
+  url: string;
+  name?: string;
+  size?: number;
+}
+
+/** 调用文件上传接口的类，题目和选项的图片都通过这里上传 */
+class FileServer extends TrainingServer<UploadedFile> {
+  constructor() {
+    super("/files", serverHost);
+  }
+
+  upload = async (file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    const body = (
+      await this.http.post<Status<UploadedFile>>("/upload", formData, {
+        baseURL: this.baseUrl,
+      })
+    ).data;
+    return this.validate(uploadedFileSchema, body, "/upload");
+  };
+}
+
+export const fileServer = new FileServer();